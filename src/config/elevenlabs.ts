@@ -1,16 +1,69 @@
-// Note: ElevenLabs integration will be implemented with proper SDK
-// For now, we'll create a mock implementation
+import { voiceConfig } from './env';
 
+const apiKey = process.env.ELEVENLABS_API_KEY;
 
-if (!process.env.ELEVENLABS_API_KEY) {
-  console.warn('ElevenLabs API key not found - using mock implementation');
+if (!apiKey) {
+  console.warn('⚠️  ElevenLabs API key not found. Text-to-speech will use the local provider.');
 }
 
-// Mock ElevenLabs API for now
+export const ELEVENLABS_API_URL = 'https://api.elevenlabs.io/v1';
+
+export interface ElevenLabsVoiceSettings {
+  stability: number;
+  similarity_boost: number;
+  style?: number;
+  use_speaker_boost?: boolean;
+  speed?: number;
+}
+
+export interface ElevenLabsTextToSpeechOptions {
+  voice_id: string;
+  text: string;
+  voice_settings: ElevenLabsVoiceSettings;
+}
+
+const isTimeout = (error: unknown) =>
+  error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+
+// Minimal ElevenLabs REST client
 export const elevenlabs = {
-  textToSpeech: async (options: any) => {
-    // Return mock audio data
-    return Buffer.from('mock-audio-data');
+  textToSpeech: async (options: ElevenLabsTextToSpeechOptions): Promise<Buffer> => {
+    const { output_format, optimize_streaming_latency, model_id } = ELEVENLABS_CONFIG.AUDIO_SETTINGS;
+    const query = new URLSearchParams({
+      output_format,
+      optimize_streaming_latency: String(optimize_streaming_latency)
+    });
+
+    // The timeout covers the whole exchange, including reading the audio
+    const signal = AbortSignal.timeout(voiceConfig.ttsTimeoutMs);
+
+    try {
+      const response = await fetch(`${ELEVENLABS_API_URL}/text-to-speech/${options.voice_id}?${query}`, {
+        method: 'POST',
+        headers: {
+          Accept: 'audio/mpeg',
+          'Content-Type': 'application/json',
+          'xi-api-key': apiKey || ''
+        },
+        body: JSON.stringify({
+          text: options.text,
+          model_id,
+          voice_settings: options.voice_settings
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`ElevenLabs text-to-speech failed with status ${response.status}: ${await response.text()}`);
+      }
+
+      return Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+      if (isTimeout(error)) {
+        throw new Error(`ElevenLabs text-to-speech timed out after ${voiceConfig.ttsTimeoutMs}ms`);
+      }
+      throw error;
+    }
   }
 };
 
@@ -24,6 +77,20 @@ export const ELEVENLABS_CONFIG = {
     ASSISTANT: 'ThT5KcBeYPX3keUQqHPh', // Dorothy - clear, articulate
   },
 
+  // Names and descriptions shown to guests choosing a voice
+  VOICE_PROFILES: {
+    PROFESSIONAL_FEMALE: { name: 'Bella', description: 'Professional, warm' },
+    PROFESSIONAL_MALE: { name: 'Clyde', description: 'Professional, friendly' },
+    CONCIERGE: { name: 'Adam', description: 'Sophisticated, helpful' },
+    ASSISTANT: { name: 'Dorothy', description: 'Clear, articulate' }
+  },
+
+  // Speaking rates ElevenLabs accepts; 1 is normal speed
+  SPEED_RANGE: {
+    min: 0.7,
+    max: 1.2
+  },
+
   // Voice settings
   VOICE_SETTINGS: {
     stability: 0.75,
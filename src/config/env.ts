@@ -26,6 +26,61 @@ const envSchema = z.object({
   // API Keys (optional for development)
   OPENAI_API_KEY: z.string().optional(),
   ELEVENLABS_API_KEY: z.string().optional(),
+
+  // AI model provider
+  AI_PROVIDER: z.enum(['openai', 'local_llm']).default('openai'),
+  AI_BASE_URL: z.string().optional(),
+  AI_API_KEY: z.string().optional(),
+  AI_CHAT_MODEL: z.string().optional(),
+  AI_EMBEDDING_MODEL: z.string().optional(),
+  AI_TRANSCRIPTION_MODEL: z.string().optional(),
+  AI_TIMEOUT_MS: z.coerce.number().int().positive().default(20000),
+  AI_MAX_RETRIES: z.coerce.number().int().min(0).default(2),
+  AI_CIRCUIT_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(5),
+  AI_CIRCUIT_RESET_MS: z.coerce.number().int().positive().default(30000),
+
+  // Voice pipeline
+  TRANSCRIPTION_PROVIDER: z.enum(['openai', 'local']).optional(),
+  TTS_PROVIDER: z.enum(['elevenlabs', 'local']).optional(),
+  TTS_TIMEOUT_MS: z.coerce.number().int().positive().default(15000),
+  EMBEDDING_PROVIDER: z.enum(['openai', 'local']).optional(),
+  CLASSIFIER_PROVIDER: z.enum(['openai', 'rules']).optional(),
+  TRANSLATION_PROVIDER: z.enum(['openai', 'local']).optional(),
+  STAFF_LANGUAGE: z.string().min(2).default('en'),
+  EMERGENCY_RENOTIFY_SECONDS: z.coerce.number().int().positive().default(60),
+  VOICE_REVIEW_CONFIDENCE_THRESHOLD: z.coerce.number().min(0).max(1).default(0.6),
+  DUPLICATE_REQUEST_WINDOW_MINUTES: z.coerce.number().int().min(0).default(30),
+  DUPLICATE_REQUEST_SIMILARITY: z.coerce.number().min(0).max(1).default(0.75),
+
+  // Audio uploads
+  AUDIO_MAX_UPLOAD_MB: z.coerce.number().positive().default(10),
+  AUDIO_MAX_DURATION_SECONDS: z.coerce.number().int().positive().default(120),
+  AUDIO_MIN_SAMPLE_RATE: z.coerce.number().int().positive().default(8000),
+  AUDIO_MAX_SAMPLE_RATE: z.coerce.number().int().positive().default(48000),
+  FFMPEG_PATH: z.string().optional(),
+
+  // Usage metering (estimated USD prices)
+  USAGE_COST_PER_1K_PROMPT_TOKENS: z.coerce.number().min(0).default(0.01),
+  USAGE_COST_PER_1K_COMPLETION_TOKENS: z.coerce.number().min(0).default(0.03),
+  USAGE_COST_PER_1K_EMBEDDING_TOKENS: z.coerce.number().min(0).default(0.00002),
+  USAGE_COST_PER_AUDIO_MINUTE: z.coerce.number().min(0).default(0.006),
+  USAGE_COST_PER_1K_TTS_CHARACTERS: z.coerce.number().min(0).default(0.18),
+
+  // Privacy
+  PII_ENCRYPTION_KEY: z.string().optional(),
+
+  // Storage
+  STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+  STORAGE_LOCAL_PATH: z.string().default('./storage'),
+  STORAGE_SIGNING_SECRET: z.string().optional(),
+  STORAGE_URL_TTL_SECONDS: z.coerce.number().int().positive().default(900),
+  VOICE_AUDIO_RETENTION_DAYS: z.coerce.number().int().positive().default(30),
+  S3_ENDPOINT: z.string().optional(),
+  S3_REGION: z.string().default('us-east-1'),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  S3_FORCE_PATH_STYLE: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
 });
 
 // Validate environment variables
@@ -65,3 +120,119 @@ export const securityConfig = {
 export const loggingConfig = {
   level: env.LOG_LEVEL,
 };
+
+export const aiConfig = {
+  provider: env.AI_PROVIDER,
+  // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for a local server
+  baseUrl: env.AI_BASE_URL || undefined,
+  apiKey: env.AI_API_KEY || env.OPENAI_API_KEY,
+  models: {
+    chat: env.AI_CHAT_MODEL,
+    embedding: env.AI_EMBEDDING_MODEL,
+    transcription: env.AI_TRANSCRIPTION_MODEL,
+  },
+  timeoutMs: env.AI_TIMEOUT_MS,
+  maxRetries: env.AI_MAX_RETRIES,
+  circuitBreaker: {
+    failureThreshold: env.AI_CIRCUIT_FAILURE_THRESHOLD,
+    resetMs: env.AI_CIRCUIT_RESET_MS,
+  },
+};
+
+// A local model server needs no API key
+const hasModelBackend = env.AI_PROVIDER === 'local_llm' || !!aiConfig.apiKey;
+
+// The deterministic fakes stand in for a missing model backend only in tests;
+// anywhere else they have to be chosen explicitly
+const modelOrFake = <T extends string>(chosen: T | undefined, fake: T): T | 'openai' =>
+  chosen || (isTest && !hasModelBackend ? fake : 'openai');
+
+export const voiceConfig = {
+  transcriptionProvider: modelOrFake(env.TRANSCRIPTION_PROVIDER, 'local'),
+  ttsProvider: env.TTS_PROVIDER || (env.ELEVENLABS_API_KEY ? 'elevenlabs' : 'local'),
+  ttsTimeoutMs: env.TTS_TIMEOUT_MS,
+  embeddingProvider: modelOrFake(env.EMBEDDING_PROVIDER, 'local'),
+  classifierProvider: modelOrFake(env.CLASSIFIER_PROVIDER, 'rules'),
+  translationProvider: modelOrFake(env.TRANSLATION_PROVIDER, 'local'),
+  // Guest requests in other languages are translated into this one for staff
+  staffLanguage: env.STAFF_LANGUAGE,
+  // Ticket requests classified below this confidence are held for manager review
+  reviewConfidenceThreshold: env.VOICE_REVIEW_CONFIDENCE_THRESHOLD,
+  // Unacknowledged emergencies are broadcast again at this interval
+  emergencyRenotifySeconds: env.EMERGENCY_RENOTIFY_SECONDS,
+  // A request this similar to an open ticket from the same room, made within the
+  // window, is linked to that ticket instead of opening another; 0 minutes disables it
+  duplicateWindowMinutes: env.DUPLICATE_REQUEST_WINDOW_MINUTES,
+  duplicateSimilarity: env.DUPLICATE_REQUEST_SIMILARITY,
+};
+
+// Reasons the voice pipeline cannot serve real guests with this configuration
+const voiceConfigProblems = (): string[] => {
+  const problems = [
+    voiceConfig.transcriptionProvider === 'local' && 'TRANSCRIPTION_PROVIDER=local returns placeholder transcripts',
+    voiceConfig.embeddingProvider === 'local' && 'EMBEDDING_PROVIDER=local is a test fake',
+    voiceConfig.translationProvider === 'local' && 'TRANSLATION_PROVIDER=local does not translate'
+  ].filter((problem): problem is string => !!problem);
+
+  const usesModel = [
+    voiceConfig.transcriptionProvider,
+    voiceConfig.embeddingProvider,
+    voiceConfig.classifierProvider,
+    voiceConfig.translationProvider
+  ].includes('openai');
+  if (usesModel && !hasModelBackend) {
+    problems.push('no model backend: set AI_API_KEY or OPENAI_API_KEY, or AI_PROVIDER=local_llm');
+  }
+
+  return problems;
+};
+
+const problems = isProduction ? voiceConfigProblems() : [];
+if (problems.length > 0) {
+  console.error('❌ Voice pipeline configuration is not usable in production:');
+  problems.forEach(problem => console.error(`  - ${problem}`));
+  process.exit(1);
+}
+
+export const audioConfig = {
+  maxUploadBytes: Math.round(env.AUDIO_MAX_UPLOAD_MB * 1024 * 1024),
+  maxDurationSeconds: env.AUDIO_MAX_DURATION_SECONDS,
+  minSampleRate: env.AUDIO_MIN_SAMPLE_RATE,
+  maxSampleRate: env.AUDIO_MAX_SAMPLE_RATE,
+  // Recordings are converted to 16kHz mono 16-bit WAV before transcription.
+  // Compressed formats need ffmpeg; without it they are transcribed as uploaded.
+  normalizedSampleRate: 16000,
+  ffmpegPath: env.FFMPEG_PATH || null,
+};
+
+// Local providers are free; everything else is priced with these rates
+export const usageConfig = {
+  pricing: {
+    promptTokensPer1k: env.USAGE_COST_PER_1K_PROMPT_TOKENS,
+    completionTokensPer1k: env.USAGE_COST_PER_1K_COMPLETION_TOKENS,
+    embeddingTokensPer1k: env.USAGE_COST_PER_1K_EMBEDDING_TOKENS,
+    audioMinute: env.USAGE_COST_PER_AUDIO_MINUTE,
+    ttsCharactersPer1k: env.USAGE_COST_PER_1K_TTS_CHARACTERS,
+  },
+};
+
+export const privacyConfig = {
+  // Encrypts the unredacted copies of transcripts and ticket text
+  encryptionKey: env.PII_ENCRYPTION_KEY || process.env.JWT_SECRET,
+};
+
+export const storageConfig = {
+  driver: env.STORAGE_DRIVER,
+  localPath: env.STORAGE_LOCAL_PATH,
+  signingSecret: env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET,
+  urlTtlSeconds: env.STORAGE_URL_TTL_SECONDS,
+  retentionDays: env.VOICE_AUDIO_RETENTION_DAYS,
+  s3: {
+    endpoint: env.S3_ENDPOINT || undefined,
+    region: env.S3_REGION,
+    bucket: env.S3_BUCKET,
+    accessKeyId: env.S3_ACCESS_KEY_ID,
+    secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    forcePathStyle: env.S3_FORCE_PATH_STYLE,
+  },
+};
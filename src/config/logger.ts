@@ -1,10 +1,21 @@
 import winston from 'winston';
 import { loggingConfig, isDevelopment, isProduction } from './env';
+import { redactValue } from '../services/redaction';
+
+// Mask PII (card, phone, passport numbers...) in messages and metadata
+const redactPII = winston.format((info) => {
+  for (const key of Object.keys(info)) {
+    info[key] = redactValue(info[key]);
+  }
+  return info;
+});
 
 // Define log format
+// Redaction runs after errors() has copied Error messages and stacks onto the entry
 const logFormat = winston.format.combine(
   winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
   winston.format.errors({ stack: true }),
+  redactPII(),
   winston.format.json()
 );
 
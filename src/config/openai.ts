@@ -1,22 +1,29 @@
 import OpenAI from 'openai';
+import { aiConfig } from './env';
 
-const apiKey = process.env.OPENAI_API_KEY || 'placeholder_openai_key';
+const apiKey = aiConfig.apiKey || 'placeholder_openai_key';
 
-if (apiKey === 'placeholder_openai_key') {
+if (aiConfig.provider === 'local_llm' && !aiConfig.baseUrl) {
+  console.warn('⚠️  AI_PROVIDER is local_llm but AI_BASE_URL is not set. Requests will go to the OpenAI API.');
+} else if (aiConfig.provider === 'openai' && apiKey === 'placeholder_openai_key') {
   console.warn('⚠️  Using placeholder OpenAI API key. AI features will not work until proper credentials are provided.');
 }
 
+// Serves OpenAI itself or any OpenAI-compatible server via AI_BASE_URL
 export const openai = new OpenAI({
   apiKey: apiKey,
+  baseURL: aiConfig.baseUrl,
+  timeout: aiConfig.timeoutMs,
+  maxRetries: aiConfig.maxRetries,
 });
 
 // OpenAI configuration constants
 export const OPENAI_CONFIG = {
   // Model configurations
   MODELS: {
-    CHAT: 'gpt-4-turbo-preview',
-    EMBEDDING: 'text-embedding-3-small',
-    WHISPER: 'whisper-1'
+    CHAT: aiConfig.models.chat || 'gpt-4-turbo-preview',
+    EMBEDDING: aiConfig.models.embedding || 'text-embedding-3-small',
+    WHISPER: aiConfig.models.transcription || 'whisper-1'
   },
   
   // Default parameters
@@ -69,11 +76,18 @@ export const OPENAI_CONFIG = {
     - Title (brief, descriptive)
     - Description (detailed, actionable)
     - Priority (low, medium, high, urgent)
-    - Department (housekeeping, room_service, concierge, maintenance)
-    - Estimated completion time
+    - Department (housekeeping, room_service, concierge, maintenance, front_desk)
+    - Estimated completion time in minutes
     - Required resources or staff
     
-    Respond in JSON format.`
+    Respond in JSON format: {"title": "...", "description": "...", "priority": "medium", "department": "housekeeping", "estimated_completion": 30, "required_resources": ["..."]}`,
+
+    LANGUAGE_DETECTOR: `Identify the language of the hotel guest's message.
+    Respond with JSON format: {"language": "es"} using the ISO 639-1 code.`,
+
+    TRANSLATOR: `You translate messages between hotel guests and hotel staff.
+    Translate the user's message into the requested language, keeping names, room numbers and times unchanged.
+    Reply with the translation only.`
   }
 } as const;
 
@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 
 // Global Prisma client instance
 declare global {
@@ -39,6 +39,21 @@ process.on('SIGTERM', async () => {
   process.exit(0);
 });
 
+const SERIALIZABLE_ATTEMPTS = 3;
+
+// Run read-then-write work (e.g. "next version number") in a serializable
+// transaction, retrying when a concurrent transaction wrote first
+export async function withSerializableTransaction<T>(work: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(work, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+    } catch (error) {
+      const conflict = error instanceof Prisma.PrismaClientKnownRequestError && ['P2034', 'P2002'].includes(error.code);
+      if (!conflict || attempt >= SERIALIZABLE_ATTEMPTS) throw error;
+    }
+  }
+}
+
 // Health check function
 export async function checkDatabaseConnection() {
   try {
@@ -55,7 +70,17 @@ export async function checkDatabaseConnection() {
 export type {
   User,
   Ticket,
+  TicketStatusHistory,
+  TicketComment,
   VoiceSession,
+  GuestFeedback,
+  KnowledgeArticle,
+  EmergencyAlert,
+  PromptVersion,
+  ModelUsage,
+  UsageBudget,
+  HotelVoiceSettings,
+  RedactedContent,
   Notification,
   AuditLog,
   Role,
@@ -65,6 +90,10 @@ export type {
   TicketPriority,
   Department,
   NotificationStatus,
+  VoiceSessionStatus,
+  VoiceRequestOutcome,
+  SessionChannel,
+  CommentVisibility,
 } from '@prisma/client';
 
 export default prisma;
@@ -73,12 +73,28 @@ const options = {
             room_number: { type: 'string' },
             guest_notes: { type: 'string' },
             staff_notes: { type: 'string' },
+            guest_language: { type: 'string', description: 'Language the guest made the request in' },
+            original_text: { type: 'string', description: "The guest's own words, when not in the staff language" },
+            translated_text: { type: 'string', description: 'Translation of original_text into the staff language' },
             estimated_time: { type: 'integer' },
             actual_time: { type: 'integer' },
             created_at: { type: 'string', format: 'date-time' },
             updated_at: { type: 'string', format: 'date-time' }
           }
         },
+        TicketComment: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            ticket_id: { type: 'string' },
+            author_id: { type: 'string' },
+            body: { type: 'string', description: 'Comment text with PII masked' },
+            visibility: { type: 'string', enum: ['internal', 'guest'], description: 'internal notes are for staff only' },
+            mentions: { type: 'array', items: { type: 'string' }, description: 'IDs of the staff users mentioned' },
+            edited_at: { type: 'string', format: 'date-time' },
+            created_at: { type: 'string', format: 'date-time' }
+          }
+        },
         VoiceSession: {
           type: 'object',
           properties: {
@@ -88,9 +104,26 @@ const options = {
             intent: { type: 'string' },
             confidence: { type: 'number' },
             response_text: { type: 'string' },
-            response_audio_url: { type: 'string' },
+            audio_file_url: { type: 'string', description: 'Storage key of the original recording' },
+            response_audio_url: { type: 'string', description: 'Storage key of the spoken response' },
+            audio_download_url: { type: 'string', description: 'Signed, expiring download URL for the recording' },
+            response_audio_download_url: { type: 'string', description: 'Signed, expiring download URL for the response' },
             duration: { type: 'number' },
-            language: { type: 'string' },
+            language: { type: 'string', description: 'Detected or requested language of the guest' },
+            channel: { type: 'string', enum: ['voice', 'text'], description: 'Whether the guest spoke or typed in the chat' },
+            duplicate_of_ticket_id: {
+              type: 'string',
+              description: 'Open ticket this request repeated; set instead of creating another ticket'
+            },
+            prompt_versions: {
+              type: 'object',
+              description: 'Prompt version served for each prompt key; id is null for the built-in prompt'
+            },
+            usage: {
+              type: 'array',
+              items: { type: 'object' },
+              description: 'Metered model and text-to-speech calls with estimated cost (staff only)'
+            },
             created_at: { type: 'string', format: 'date-time' }
           }
         },
@@ -0,0 +1,111 @@
+import { Request, Response, NextFunction } from 'express';
+import { APIResponse, SessionChannel } from '../types';
+import { resolveHotelScope } from '../middleware/auth';
+import { AnalyticsFilters, MAX_VOLUME_BUCKETS, VoiceAnalytics, VolumeInterval } from '../services/voiceAnalytics';
+
+const DEFAULT_REPORT_DAYS = 30;
+
+// Filters from the query string, or an error message
+const parseFilters = (req: Request): AnalyticsFilters | string => {
+  const { start_date, end_date, channel } = req.query;
+
+  const to = end_date ? new Date(end_date as string) : new Date();
+  const from = start_date
+    ? new Date(start_date as string)
+    : new Date(to.getTime() - DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+    return 'Invalid date range';
+  }
+  if (channel && !Object.values(SessionChannel).includes(channel as SessionChannel)) {
+    return 'channel must be voice or text';
+  }
+
+  return {
+    hotelId: resolveHotelScope(req, req.query.hotel_id),
+    from,
+    to,
+    ...(channel && { channel: channel as SessionChannel })
+  };
+};
+
+const invalidFilters = (res: Response, error: string) => res.status(400).json({
+  success: false,
+  error,
+  timestamp: new Date().toISOString()
+} as APIResponse);
+
+export class AnalyticsController {
+  // Dashboard summary of voice and chat sessions
+  static async getVoiceSummary(req: Request, res: Response, next: NextFunction) {
+    try {
+      const filters = parseFilters(req);
+      if (typeof filters === 'string') {
+        return invalidFilters(res, filters);
+      }
+
+      const summary = await VoiceAnalytics.summary(filters);
+
+      res.json({
+        success: true,
+        data: summary,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Session volume over time
+  static async getVoiceVolume(req: Request, res: Response, next: NextFunction) {
+    try {
+      const filters = parseFilters(req);
+      if (typeof filters === 'string') {
+        return invalidFilters(res, filters);
+      }
+
+      const interval = (req.query.interval || 'hour') as VolumeInterval;
+      if (interval !== 'hour' && interval !== 'day') {
+        return invalidFilters(res, 'interval must be hour or day');
+      }
+
+      const bucketMs = interval === 'hour' ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+      if ((filters.to.getTime() - filters.from.getTime()) / bucketMs > MAX_VOLUME_BUCKETS) {
+        return invalidFilters(res, `Date range is too long for ${interval}ly buckets; use a shorter range or interval=day`);
+      }
+
+      const volume = await VoiceAnalytics.volume(filters, interval);
+
+      res.json({
+        success: true,
+        data: volume,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Voice tickets staff moved to another department
+  static async getReroutedTickets(req: Request, res: Response, next: NextFunction) {
+    try {
+      const filters = parseFilters(req);
+      if (typeof filters === 'string') {
+        return invalidFilters(res, filters);
+      }
+
+      const tickets = await VoiceAnalytics.reroutedTickets(filters);
+
+      res.json({
+        success: true,
+        data: tickets,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+}
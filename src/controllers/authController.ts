@@ -3,6 +3,7 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../config/prisma';
 import { APIResponse, User, UserRole } from '../types';
+import { validateVoicePreferences } from '../services/voicePreferences';
 
 export class AuthController {
   // Register user with local authentication
@@ -29,6 +30,15 @@ export class AuthController {
         } as APIResponse);
       }
 
+      const preferencesError = validateVoicePreferences(preferences);
+      if (preferencesError) {
+        return res.status(400).json({
+          success: false,
+          error: preferencesError,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
       // Check if user already exists
       const existingUser = await prisma.user.findUnique({
         where: { email },
@@ -300,6 +310,15 @@ export class AuthController {
         } as APIResponse);
       }
 
+      const preferencesError = validateVoicePreferences(preferences);
+      if (preferencesError) {
+        return res.status(400).json({
+          success: false,
+          error: preferencesError,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
       // Check if user already exists in our database
       const existingUser = await prisma.user.findUnique({
         where: { email },
@@ -408,6 +427,15 @@ export class AuthController {
         preferences
       } = req.body;
 
+      const preferencesError = validateVoicePreferences(preferences);
+      if (preferencesError) {
+        return res.status(400).json({
+          success: false,
+          error: preferencesError,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
       // Check if user exists
       const existingUser = await prisma.user.findUnique({
         where: { id: userId },
@@ -531,6 +559,15 @@ export class AuthController {
         room_number
       } = req.body;
 
+      const preferencesError = validateVoicePreferences(preferences);
+      if (preferencesError) {
+        return res.status(400).json({
+          success: false,
+          error: preferencesError,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
       const updatedUser = await prisma.user.update({
         where: { id: req.user!.id },
         data: {
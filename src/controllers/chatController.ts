@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import { APIResponse } from '../types';
+import { ChatService, toChatResponse, validateChatMessage, validateChatOptions } from '../services/chat';
+
+export class ChatController {
+  // Answer a typed guest message the same way as a voice request
+  static async sendMessage(req: Request, res: Response, next: NextFunction) {
+    try {
+      const startedAt = Date.now();
+      const { message, language, room_number, session_id } = req.body;
+
+      const invalid = validateChatMessage(message) || validateChatOptions(req.body);
+      if (invalid) {
+        return res.status(400).json({
+          success: false,
+          error: invalid,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const result = await ChatService.send(req.user!, { message, language, room_number, session_id }, startedAt);
+
+      res.json({
+        success: true,
+        data: {
+          ...toChatResponse(message, result),
+          session: result.voiceSession,
+          ticket: result.ticket,
+          duplicate_of: result.duplicateOf,
+          translated_message: result.translatedTranscript,
+          outcome: result.outcome,
+          knowledge_sources: result.knowledgeSources,
+          degraded: result.degraded
+        },
+        message: result.degraded
+          ? 'AI service unavailable; message saved for staff follow-up'
+          : 'Chat message processed successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+}
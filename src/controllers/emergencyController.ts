@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import { APIResponse } from '../types';
+import { EmergencyService } from '../services/emergency';
+
+export class EmergencyController {
+  // List emergencies nobody has acknowledged yet
+  static async getActiveAlerts(req: Request, res: Response, next: NextFunction) {
+    try {
+      const alerts = await EmergencyService.listActive(req.user!);
+
+      res.json({
+        success: true,
+        data: alerts,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Acknowledge an emergency, stopping repeat alerts
+  static async acknowledgeAlert(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const alert = await EmergencyService.acknowledge(id, req.user!);
+
+      res.json({
+        success: true,
+        data: alert,
+        message: 'Emergency acknowledged',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+}
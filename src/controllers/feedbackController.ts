@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../config/prisma';
+import { APIResponse, GuestFeedback } from '../types';
+
+export class FeedbackController {
+  // List guest feedback recorded from voice requests
+  static async getFeedback(req: Request, res: Response, next: NextFunction) {
+    try {
+      const {
+        hotel_id,
+        sentiment,
+        limit = 50,
+        offset = 0
+      } = req.query;
+
+      let whereClause: any = {};
+
+      // Managers only see feedback for their own hotel
+      if (req.user!.role !== 'super_admin') {
+        whereClause.hotel_id = req.user!.hotel_id;
+      } else if (hotel_id) {
+        whereClause.hotel_id = hotel_id;
+      }
+
+      if (sentiment) whereClause.sentiment = sentiment;
+
+      const feedback = await prisma.guestFeedback.findMany({
+        where: whereClause,
+        include: {
+          user: {
+            select: {
+              id: true,
+              first_name: true,
+              last_name: true,
+              room_number: true
+            }
+          }
+        },
+        orderBy: { created_at: 'desc' },
+        take: Number(limit),
+        skip: Number(offset)
+      });
+
+      const total = await prisma.guestFeedback.count({ where: whereClause });
+
+      res.json({
+        success: true,
+        data: feedback,
+        pagination: {
+          total,
+          limit: Number(limit),
+          offset: Number(offset),
+          hasMore: Number(offset) + Number(limit) < total
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse<GuestFeedback[]>);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../config/prisma';
 import { getWebSocketService } from '../services/websocket';
+import { getModelProvider } from '../services/modelProvider';
 import { APIResponse } from '../types';
 
 export class HealthController {
@@ -65,6 +66,23 @@ export class HealthController {
         healthStatus.status = 'degraded';
       }
 
+      // Check AI provider circuit
+      const aiStatus = getModelProvider().getStatus();
+      if (aiStatus.circuit.state === 'closed') {
+        healthStatus.services.ai = {
+          status: 'healthy',
+          message: 'AI provider available',
+          ...aiStatus
+        };
+      } else {
+        healthStatus.services.ai = {
+          status: 'unhealthy',
+          message: 'AI provider unavailable, voice requests are recorded without processing',
+          ...aiStatus
+        };
+        healthStatus.status = 'degraded';
+      }
+
       // Check memory usage
       const memUsage = process.memoryUsage();
       healthStatus.services.memory = {
@@ -0,0 +1,257 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { APIResponse, KnowledgeArticle } from '../types';
+import { KnowledgeBase, KNOWLEDGE_CATEGORIES } from '../services/knowledgeBase';
+import { resolveHotelScope } from '../middleware/auth';
+
+// Embeddings are internal; keep them out of API responses
+const withoutEmbedding = ({ embedding, ...article }: KnowledgeArticle) => article;
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+export class KnowledgeBaseController {
+  // List knowledge base articles for a hotel
+  static async getArticles(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { category, include_inactive } = req.query;
+      const hotelId = resolveHotelScope(req, req.query.hotel_id);
+
+      if (!hotelId) {
+        return res.status(400).json({
+          success: false,
+          error: 'hotel_id is required',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      let whereClause: any = { hotel_id: hotelId };
+      if (category) whereClause.category = category;
+      if (include_inactive !== 'true') whereClause.active = true;
+
+      const articles = await prisma.knowledgeArticle.findMany({
+        where: whereClause,
+        orderBy: [{ category: 'asc' }, { title: 'asc' }]
+      });
+
+      res.json({
+        success: true,
+        data: articles.map(withoutEmbedding),
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create a knowledge base article
+  static async createArticle(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { title, content, category = 'general' } = req.body;
+      const hotelId = resolveHotelScope(req, req.body.hotel_id);
+
+      if (!isText(title) || !isText(content) || !hotelId) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: title, content, hotel_id',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      if (!KNOWLEDGE_CATEGORIES.includes(category)) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid category. Valid categories: ${KNOWLEDGE_CATEGORIES.join(', ')}`,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const article = await prisma.knowledgeArticle.create({
+        data: {
+          hotel_id: hotelId,
+          title,
+          content,
+          category,
+          created_by: req.user!.id,
+          ...(await KnowledgeBase.embedArticle({ title, content }))
+        }
+      });
+
+      res.status(201).json({
+        success: true,
+        data: withoutEmbedding(article),
+        message: 'Knowledge article created successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a knowledge base article, re-embedding when its text changes
+  static async updateArticle(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { title, content, category, active } = req.body;
+
+      const article = await prisma.knowledgeArticle.findUnique({
+        where: { id }
+      });
+
+      if (!article || (req.user!.role !== 'super_admin' && article.hotel_id !== req.user!.hotel_id)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Knowledge article not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      if ((title !== undefined && !isText(title)) || (content !== undefined && !isText(content))) {
+        return res.status(400).json({
+          success: false,
+          error: 'title and content must be non-empty strings',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      if (active !== undefined && typeof active !== 'boolean') {
+        return res.status(400).json({
+          success: false,
+          error: 'active must be a boolean',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      if (category && !KNOWLEDGE_CATEGORIES.includes(category)) {
+        return res.status(400).json({
+          success: false,
+          error: `Invalid category. Valid categories: ${KNOWLEDGE_CATEGORIES.join(', ')}`,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const text = title !== undefined || content !== undefined
+        ? { title: title ?? article.title, content: content ?? article.content }
+        : null;
+      const updateData: Prisma.KnowledgeArticleUpdateInput = {
+        category,
+        active,
+        ...(text && { ...text, ...(await KnowledgeBase.embedArticle(text)) })
+      };
+
+      const updatedArticle = await prisma.knowledgeArticle.update({
+        where: { id },
+        data: updateData
+      });
+
+      res.json({
+        success: true,
+        data: withoutEmbedding(updatedArticle),
+        message: 'Knowledge article updated successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete a knowledge base article
+  static async deleteArticle(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const article = await prisma.knowledgeArticle.findUnique({
+        where: { id }
+      });
+
+      if (!article || (req.user!.role !== 'super_admin' && article.hotel_id !== req.user!.hotel_id)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Knowledge article not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      await prisma.knowledgeArticle.delete({
+        where: { id }
+      });
+
+      res.json({
+        success: true,
+        message: 'Knowledge article deleted successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Semantic search, the same lookup used to ground answers to guest inquiries
+  static async search(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { query, limit } = req.body;
+      const hotelId = resolveHotelScope(req, req.body.hotel_id);
+
+      if (!isText(query) || !hotelId) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: query, hotel_id',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const searchLimit = limit === undefined || limit === null
+        ? undefined
+        : typeof limit === 'number' || typeof limit === 'string' ? Number(limit) : NaN;
+      if (searchLimit !== undefined && (!Number.isInteger(searchLimit) || searchLimit < 1)) {
+        return res.status(400).json({
+          success: false,
+          error: 'limit must be a positive integer',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const results = await KnowledgeBase.search(hotelId, query, searchLimit);
+
+      res.json({
+        success: true,
+        data: results,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Re-embed all of a hotel's articles with the current embedding provider
+  static async reindex(req: Request, res: Response, next: NextFunction) {
+    try {
+      const hotelId = resolveHotelScope(req, req.body.hotel_id);
+
+      if (!hotelId) {
+        return res.status(400).json({
+          success: false,
+          error: 'hotel_id is required',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const count = await KnowledgeBase.reindex(hotelId);
+
+      res.json({
+        success: true,
+        data: { reindexed: count },
+        message: 'Knowledge base reindexed successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+}
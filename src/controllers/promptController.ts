@@ -0,0 +1,249 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma, withSerializableTransaction } from '../config/prisma';
+import { OPENAI_CONFIG } from '../config/openai';
+import { APIResponse, PromptVersion } from '../types';
+import { resolveHotelScope } from '../middleware/auth';
+import { PromptRegistry, PROMPT_KEYS, isPromptKey } from '../services/promptRegistry';
+
+// Super admins manage the global prompts (no hotel_id) or any hotel's overrides;
+// general managers only their own hotel's overrides (see resolveHotelScope)
+
+const invalidKey = (res: Response) => res.status(400).json({
+  success: false,
+  error: `Invalid prompt key. Valid keys: ${PROMPT_KEYS.join(', ')}`,
+  timestamp: new Date().toISOString()
+} as APIResponse);
+
+// Versions of a prompt in the same scope share the traffic split
+const findVersionInScope = async (req: Request, id: string): Promise<PromptVersion | null> => {
+  const hotelId = resolveHotelScope(req);
+  const version = await prisma.promptVersion.findUnique({ where: { id } });
+  if (!version) return null;
+  if (req.user!.role !== 'super_admin' && version.hotel_id !== hotelId) return null;
+  return version;
+};
+
+export class PromptController {
+  // List prompt versions, with the built-in default for each key
+  static async getPrompts(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { key } = req.query;
+      const hotelId = resolveHotelScope(req, req.query.hotel_id);
+
+      if (key && !isPromptKey(key)) {
+        return invalidKey(res);
+      }
+
+      const versions = await prisma.promptVersion.findMany({
+        where: {
+          hotel_id: hotelId,
+          ...(key && { key: key as string })
+        },
+        orderBy: [{ key: 'asc' }, { version: 'desc' }]
+      });
+
+      res.json({
+        success: true,
+        data: {
+          hotel_id: hotelId,
+          versions,
+          defaults: Object.fromEntries(
+            PROMPT_KEYS.map(promptKey => [promptKey, OPENAI_CONFIG.SYSTEM_PROMPTS[promptKey]])
+          )
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create a new version of a prompt; it serves no traffic until activated
+  static async createPrompt(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { key, content, description } = req.body;
+      const hotelId = resolveHotelScope(req, req.body.hotel_id);
+
+      if (!key || !content) {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required fields: key, content',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      if (!isPromptKey(key)) {
+        return invalidKey(res);
+      }
+
+      // The unique index does not cover global prompts (NULL hotel_id), so the
+      // next version number is taken in a serializable transaction
+      const prompt = await withSerializableTransaction(async (tx) => {
+        const latest = await tx.promptVersion.findFirst({
+          where: { key, hotel_id: hotelId },
+          orderBy: { version: 'desc' }
+        });
+
+        return tx.promptVersion.create({
+          data: {
+            key,
+            hotel_id: hotelId,
+            version: (latest?.version || 0) + 1,
+            content,
+            description,
+            created_by: req.user!.id
+          }
+        });
+      });
+
+      res.status(201).json({
+        success: true,
+        data: prompt,
+        message: 'Prompt version created successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse<PromptVersion>);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Serve a single version for all traffic in its scope
+  static async activatePrompt(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const prompt = await findVersionInScope(req, id);
+      if (!prompt) {
+        return res.status(404).json({
+          success: false,
+          error: 'Prompt version not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const activated = await withSerializableTransaction(async (tx) => {
+        await tx.promptVersion.updateMany({
+          where: { key: prompt.key, hotel_id: prompt.hotel_id, id: { not: prompt.id } },
+          data: { traffic_weight: 0 }
+        });
+        return tx.promptVersion.update({
+          where: { id: prompt.id },
+          data: { traffic_weight: 100 }
+        });
+      });
+
+      res.json({
+        success: true,
+        data: activated,
+        message: `Prompt version ${activated.version} activated`,
+        timestamp: new Date().toISOString()
+      } as APIResponse<PromptVersion>);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Split traffic between versions of one prompt, e.g. { "<id-a>": 50, "<id-b>": 50 }.
+  // Versions left out stop serving traffic.
+  static async setTrafficSplit(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { key, weights } = req.body;
+      const hotelId = resolveHotelScope(req, req.body.hotel_id);
+
+      if (!isPromptKey(key)) {
+        return invalidKey(res);
+      }
+
+      const entries = weights && typeof weights === 'object' ? Object.entries(weights) : [];
+      const valid = entries.length > 0 && entries.every(([, weight]) =>
+        Number.isInteger(weight) && (weight as number) >= 0 && (weight as number) <= 100
+      );
+
+      if (!valid || entries.every(([, weight]) => weight === 0)) {
+        return res.status(400).json({
+          success: false,
+          error: 'weights must map prompt version IDs to integers between 0 and 100, with at least one above 0',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const ids = entries.map(([id]) => id);
+      const versions = await prisma.promptVersion.findMany({
+        where: { id: { in: ids }, key, hotel_id: hotelId }
+      });
+
+      if (versions.length !== ids.length) {
+        return res.status(400).json({
+          success: false,
+          error: `All prompt versions must be ${key} versions in the same hotel scope`,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const updated = await withSerializableTransaction(async (tx) => {
+        await tx.promptVersion.updateMany({
+          where: { key, hotel_id: hotelId, id: { notIn: ids } },
+          data: { traffic_weight: 0 }
+        });
+        for (const [id, weight] of entries) {
+          await tx.promptVersion.update({
+            where: { id },
+            data: { traffic_weight: weight as number }
+          });
+        }
+
+        return tx.promptVersion.findMany({
+          where: { key, hotel_id: hotelId, traffic_weight: { gt: 0 } },
+          orderBy: { version: 'asc' }
+        });
+      });
+
+      res.json({
+        success: true,
+        data: updated,
+        message: 'Traffic split updated',
+        timestamp: new Date().toISOString()
+      } as APIResponse<PromptVersion[]>);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Compare session outcomes across the versions of a prompt
+  static async comparePrompts(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { key, start_date, end_date } = req.query;
+      const hotelId = resolveHotelScope(req, req.query.hotel_id);
+
+      if (!isPromptKey(key)) {
+        return invalidKey(res);
+      }
+
+      const from = start_date ? new Date(start_date as string) : undefined;
+      const to = end_date ? new Date(end_date as string) : undefined;
+
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid date range',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const comparison = await PromptRegistry.compare(key, hotelId, from, to);
+
+      res.json({
+        success: true,
+        data: { key, hotel_id: hotelId, versions: comparison },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { Request, Response, NextFunction } from 'express';
+import { APIResponse } from '../types';
+import { getStorageBackend, verifySignedUrl, contentTypeForKey } from '../services/storage';
+import { cleanupExpiredVoiceAudio } from '../services/audioRetention';
+
+export class StorageController {
+  // Download a stored object through a signed, expiring URL
+  static async download(req: Request, res: Response, next: NextFunction) {
+    try {
+      const key = req.params[0];
+      const { expires, signature } = req.query;
+
+      if (!key || typeof signature !== 'string' || !verifySignedUrl(key, Number(expires), signature)) {
+        return res.status(403).json({
+          success: false,
+          error: 'Invalid or expired download link',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const data = await getStorageBackend().get(key);
+
+      if (!data) {
+        return res.status(404).json({
+          success: false,
+          error: 'File not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      res.setHeader('Content-Type', contentTypeForKey(key));
+      res.setHeader('Content-Length', data.length);
+      res.setHeader('Cache-Control', 'private, max-age=0, no-store');
+      res.send(data);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Run the voice audio retention cleanup immediately
+  static async cleanup(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { retention_days } = req.body;
+
+      if (retention_days !== undefined && (!Number.isInteger(retention_days) || retention_days < 1)) {
+        return res.status(400).json({
+          success: false,
+          error: 'retention_days must be a positive integer',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const result = await cleanupExpiredVoiceAudio(retention_days);
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Voice audio cleanup completed',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -2,6 +2,10 @@ import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../config/prisma';
 import { APIResponse, Ticket, TicketStatus, TicketPriority, Department, WebSocketMessageType } from '../types';
 import { getWebSocketService } from '../services/websocket';
+import { detectEmergency, EmergencyService } from '../services/emergency';
+import { PIIVault } from '../services/redaction';
+import { allowedTransitions, loadAccessibleTicket, TicketWorkflow } from '../services/ticketStatus';
+import { TicketComments, validateCommentInput } from '../services/ticketComments';
 
 export class TicketController {
   // Create a new ticket
@@ -37,19 +41,23 @@ export class TicketController {
         } as APIResponse);
       }
 
-      // Create ticket
+      // Emergencies are always urgent and alert the hotel's managers
+      const emergency = detectEmergency([title, description, guest_notes].filter(Boolean).join(' '));
+
+      // Create ticket, with PII masked and the originals kept encrypted
+      const text = PIIVault.protect({ title, description, guest_notes, staff_notes });
       const ticket = await prisma.ticket.create({
         data: {
-          title,
-          description,
+          ...text.data,
           department,
-          priority,
+          priority: emergency ? TicketPriority.urgent : priority,
           room_number,
-          guest_notes,
-          staff_notes,
           estimated_time,
           due_date: due_date ? new Date(due_date) : undefined,
           created_by: req.user!.id,
+          status_history: {
+            create: { to_status: TicketStatus.pending, changed_by: req.user!.id }
+          }
         },
         include: {
           creator: {
@@ -62,6 +70,7 @@ export class TicketController {
           }
         }
       });
+      await PIIVault.save('ticket', ticket.id, text);
 
       // Send WebSocket notification
       const wsService = getWebSocketService();
@@ -73,10 +82,16 @@ export class TicketController {
         });
       }
 
+      if (emergency) {
+        await EmergencyService.raise(ticket, emergency, req.user!.hotel_id);
+      }
+
       res.status(201).json({
         success: true,
         data: ticket,
-        message: 'Ticket created successfully',
+        message: emergency
+          ? 'Emergency ticket created and managers alerted'
+          : 'Ticket created successfully',
         timestamp: new Date().toISOString()
       } as APIResponse<Ticket>);
 
@@ -221,11 +236,65 @@ export class TicketController {
     }
   }
 
-  // Update ticket status
+  // Original text of a ticket, before PII was masked
+  static async getUnredactedTicket(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const ticket = await prisma.ticket.findUnique({
+        where: { id },
+        include: { creator: { select: { hotel_id: true } } }
+      });
+
+      if (!ticket || (req.user!.role !== 'super_admin' && ticket.creator.hotel_id !== req.user!.hotel_id)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Ticket not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const revealed = await PIIVault.reveal('ticket', id);
+
+      // Audit every view of unredacted guest data
+      await prisma.auditLog.create({
+        data: {
+          user_id: req.user!.id,
+          action: 'view_unredacted',
+          resource_type: 'ticket',
+          resource_id: id,
+          new_values: { pii_types: revealed?.pii_types || [] },
+          ip_address: req.ip,
+          user_agent: req.get('user-agent')
+        }
+      });
+
+      res.json({
+        success: true,
+        data: {
+          id,
+          title: ticket.title,
+          description: ticket.description,
+          guest_notes: ticket.guest_notes,
+          staff_notes: ticket.staff_notes,
+          original_text: ticket.original_text,
+          translated_text: ticket.translated_text,
+          ...revealed?.fields,
+          pii_types: revealed?.pii_types || []
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Move a ticket along its status state machine
   static async updateTicketStatus(req: Request, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
-      const { status, staff_notes } = req.body;
+      const { status, staff_notes, reason } = req.body;
 
       if (!status || !Object.values(TicketStatus).includes(status)) {
         return res.status(400).json({
@@ -235,43 +304,108 @@ export class TicketController {
         } as APIResponse);
       }
 
-      const ticket = await prisma.ticket.findUnique({
-        where: { id }
+      const ticket = await loadAccessibleTicket(id, req.user!);
+
+      // Staff notes are masked like the rest of the ticket text; guests cannot write them
+      const text = PIIVault.protect({
+        staff_notes: req.user!.role !== 'guest' && staff_notes ? staff_notes : undefined
       });
 
-      if (!ticket) {
-        return res.status(404).json({
-          success: false,
-          error: 'Ticket not found',
+      const updatedTicket = await TicketWorkflow.transition(ticket, status, req.user!, {
+        reason,
+        data: text.data
+      });
+      await PIIVault.save('ticket', id, text);
+
+      // Send WebSocket notification
+      const wsService = getWebSocketService();
+      if (wsService) {
+        wsService.broadcastToRole('housekeeping', {
+          type: WebSocketMessageType.TICKET_UPDATE,
+          payload: { ticket: updatedTicket, action: 'status_updated', from_status: ticket.status },
           timestamp: new Date().toISOString()
-        } as APIResponse);
+        });
       }
 
-      // Check permissions
-      if (req.user!.role === 'guest' && ticket.created_by !== req.user!.id) {
-        return res.status(403).json({
+      res.json({
+        success: true,
+        data: updatedTicket,
+        message: 'Ticket status updated successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse<Ticket>);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Status changes of a ticket, oldest first, and where it can go next
+  static async getTicketHistory(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const ticket = await loadAccessibleTicket(id, req.user!);
+      const history = await TicketWorkflow.history(id);
+
+      res.json({
+        success: true,
+        data: {
+          ticket_id: ticket.id,
+          status: ticket.status,
+          allowed_transitions: allowedTransitions(ticket.status, req.user!.role),
+          history
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Move a ticket to another department, e.g. when a voice request was misrouted
+  static async rerouteTicket(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { department, reason } = req.body;
+
+      if (!department || !Object.values(Department).includes(department)) {
+        return res.status(400).json({
           success: false,
-          error: 'Access denied',
+          error: `Valid department is required: ${Object.values(Department).join(', ')}`,
           timestamp: new Date().toISOString()
         } as APIResponse);
       }
 
-      const updateData: any = {
-        status,
-        updated_at: new Date()
-      };
+      const ticket = await prisma.ticket.findUnique({
+        where: { id },
+        include: { creator: { select: { hotel_id: true } } }
+      });
 
-      if (staff_notes) {
-        updateData.staff_notes = staff_notes;
+      if (!ticket || (req.user!.role !== 'super_admin' && ticket.creator.hotel_id !== req.user!.hotel_id)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Ticket not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
       }
 
-      if (status === 'completed') {
-        updateData.completed_at = new Date();
+      if (ticket.department === department) {
+        return res.status(400).json({
+          success: false,
+          error: `Ticket is already routed to ${department}`,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
       }
 
+      // original_department keeps the first routing so analytics can count misroutes
       const updatedTicket = await prisma.ticket.update({
         where: { id },
-        data: updateData,
+        data: {
+          department,
+          original_department: ticket.original_department || ticket.department,
+          updated_at: new Date()
+        },
         include: {
           creator: {
             select: {
@@ -292,12 +426,24 @@ export class TicketController {
         }
       });
 
-      // Send WebSocket notification
+      await prisma.auditLog.create({
+        data: {
+          user_id: req.user!.id,
+          action: 'ticket_rerouted',
+          resource_type: 'ticket',
+          resource_id: id,
+          old_values: { department: ticket.department },
+          new_values: { department, ...(reason && { reason }) },
+          ip_address: req.ip,
+          user_agent: req.get('user-agent')
+        }
+      });
+
       const wsService = getWebSocketService();
       if (wsService) {
         wsService.broadcastToRole('housekeeping', {
           type: WebSocketMessageType.TICKET_UPDATE,
-          payload: { ticket: updatedTicket, action: 'status_updated' },
+          payload: { ticket: updatedTicket, action: 'rerouted', from_department: ticket.department },
           timestamp: new Date().toISOString()
         });
       }
@@ -305,7 +451,7 @@ export class TicketController {
       res.json({
         success: true,
         data: updatedTicket,
-        message: 'Ticket status updated successfully',
+        message: `Ticket re-routed to ${department}`,
         timestamp: new Date().toISOString()
       } as APIResponse<Ticket>);
 
@@ -389,6 +535,107 @@ export class TicketController {
     }
   }
 
+  // Comment thread of a ticket; guests see only the replies meant for them
+  static async getComments(req: Request, res: Response, next: NextFunction) {
+    try {
+      const ticket = await loadAccessibleTicket(req.params.id, req.user!);
+      const comments = await TicketComments.list(ticket, req.user!);
+
+      res.json({
+        success: true,
+        data: comments,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Add an internal note or a guest-visible reply
+  static async addComment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { body, visibility, mentions } = req.body;
+
+      const invalid = validateCommentInput({ body, visibility, mentions }, req.user!);
+      if (invalid) {
+        return res.status(400).json({
+          success: false,
+          error: invalid,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const ticket = await loadAccessibleTicket(req.params.id, req.user!);
+      const comment = await TicketComments.add(ticket, req.user!, { body, visibility, mentions });
+
+      res.status(201).json({
+        success: true,
+        data: comment,
+        message: 'Comment added successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Edit your own comment
+  static async updateComment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { body, visibility, mentions } = req.body;
+
+      const invalid = validateCommentInput({ body, visibility, mentions }, req.user!, true);
+      if (invalid) {
+        return res.status(400).json({
+          success: false,
+          error: invalid,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const ticket = await loadAccessibleTicket(req.params.id, req.user!);
+      const comment = await TicketComments.update(
+        ticket,
+        req.params.commentId,
+        req.user!,
+        { body, visibility, mentions },
+        { ip: req.ip, userAgent: req.get('user-agent') }
+      );
+
+      res.json({
+        success: true,
+        data: comment,
+        message: 'Comment updated successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete a comment (author or manager)
+  static async deleteComment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const ticket = await loadAccessibleTicket(req.params.id, req.user!);
+      await TicketComments.remove(ticket, req.params.commentId, req.user!, {
+        ip: req.ip,
+        userAgent: req.get('user-agent')
+      });
+
+      res.json({
+        success: true,
+        message: 'Comment deleted successfully',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // Delete ticket
   static async deleteTicket(req: Request, res: Response, next: NextFunction) {
     try {
@@ -415,9 +662,11 @@ export class TicketController {
         } as APIResponse);
       }
 
-      await prisma.ticket.delete({
-        where: { id }
-      });
+      // The encrypted originals of its PII go with it
+      await prisma.$transaction([
+        PIIVault.forget('ticket', id),
+        prisma.ticket.delete({ where: { id } })
+      ]);
 
       res.json({
         success: true,
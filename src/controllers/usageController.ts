@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction } from 'express';
+import { APIResponse, UsageBudget } from '../types';
+import { UsageService } from '../services/usage';
+import { resolveHotelScope } from '../middleware/auth';
+
+const DEFAULT_REPORT_DAYS = 30;
+
+const isLimit = (value: unknown) => value === undefined || value === null || (typeof value === 'number' && value >= 0);
+
+// monthly_token_limit is stored as a 32-bit Int
+const MAX_TOKEN_LIMIT = 2147483647;
+
+export class UsageController {
+  // Token, audio and TTS usage per hotel and per day
+  static async getReport(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { start_date, end_date } = req.query;
+      const hotelId = resolveHotelScope(req, req.query.hotel_id);
+
+      const to = end_date ? new Date(end_date as string) : new Date();
+      const from = start_date
+        ? new Date(start_date as string)
+        : new Date(to.getTime() - DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000);
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid date range',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const report = await UsageService.report(hotelId, from, to);
+
+      res.json({
+        success: true,
+        data: { hotel_id: hotelId, ...report },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // This month's usage against the hotel's budget
+  static async getBudget(req: Request, res: Response, next: NextFunction) {
+    try {
+      const hotelId = resolveHotelScope(req, req.query.hotel_id);
+
+      if (!hotelId) {
+        return res.status(400).json({
+          success: false,
+          error: 'hotel_id is required',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const status = await UsageService.getBudgetStatus(hotelId);
+
+      res.json({
+        success: true,
+        data: status,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Set the monthly limits; once either is reached the hotel's voice requests
+  // are classified by the keyword rules until the next month
+  static async setBudget(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { monthly_token_limit, monthly_cost_limit } = req.body;
+      const hotelId = resolveHotelScope(req, req.body.hotel_id);
+
+      if (!hotelId) {
+        return res.status(400).json({
+          success: false,
+          error: 'hotel_id is required',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      if (!isLimit(monthly_token_limit) || !isLimit(monthly_cost_limit)
+        || (monthly_token_limit != null && (!Number.isInteger(monthly_token_limit) || monthly_token_limit > MAX_TOKEN_LIMIT))) {
+        return res.status(400).json({
+          success: false,
+          error: `monthly_token_limit must be a non-negative integer up to ${MAX_TOKEN_LIMIT} and monthly_cost_limit a non-negative number, or null`,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const budget = await UsageService.setBudget(hotelId, {
+        ...(monthly_token_limit !== undefined && { monthly_token_limit }),
+        ...(monthly_cost_limit !== undefined && { monthly_cost_limit })
+      }, req.user!.id);
+
+      res.json({
+        success: true,
+        data: budget,
+        message: 'Usage budget updated',
+        timestamp: new Date().toISOString()
+      } as APIResponse<UsageBudget>);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+}
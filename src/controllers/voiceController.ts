@@ -1,106 +1,128 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../config/prisma';
-import { APIResponse, VoiceSession, WebSocketMessageType } from '../types';
-import { getWebSocketService } from '../services/websocket';
+import logger from '../config/logger';
+import { ELEVENLABS_CONFIG } from '../config/elevenlabs';
+import {
+  APIResponse,
+  Department,
+  HotelVoiceSettings,
+  SessionChannel,
+  TicketPriority,
+  VoiceSession
+} from '../types';
+import { AudioFormat, decodeAudioData, SUPPORTED_AUDIO_FORMATS } from '../services/transcription';
+import { inspectAudio } from '../services/audio';
+import { getStorageBackend } from '../services/storage';
+import { VoicePipeline, VoicePipelineResult, withAudioDownloadUrls } from '../services/voicePipeline';
+import { collectSessionAudioKeys } from '../services/audioRetention';
+import { ReviewQueue } from '../services/reviewQueue';
+import { PIIVault } from '../services/redaction';
+import {
+  AVAILABLE_VOICES,
+  VoicePreferences,
+  isAvailableVoice,
+  validateVoicePreferences
+} from '../services/voicePreferences';
+
+const describeResult = (result: VoicePipelineResult): string => {
+  if (result.emergency) return 'Emergency reported and staff alerted';
+  if (result.awaitingClarification) return 'More details needed to complete the request';
+  if (result.pendingReview) return 'Voice request is waiting for staff review';
+  if (result.duplicateOf) return 'Voice request repeats an open ticket already in progress';
+  if (result.degraded) return 'AI service unavailable; voice request saved for staff follow-up';
+  return 'Voice request processed successfully';
+};
 
 export class VoiceController {
-  // Process voice input and create ticket
+  // Process voice input and create ticket. The recording arrives as a multipart
+  // `audio` file, a raw audio body (options in the query string) or base64 JSON.
   static async processVoice(req: Request, res: Response, next: NextFunction) {
     try {
+      const startedAt = Date.now();
+      const rawBody = Buffer.isBuffer(req.body);
+      const fields = (rawBody ? req.query : req.body || {}) as Record<string, string | undefined>;
       const {
         audio_data,
-        language = 'en',
-        room_number
-      } = req.body;
+        format,
+        language,
+        room_number,
+        session_id
+      } = fields;
 
-      if (!audio_data) {
+      if (!req.file && !rawBody && !audio_data) {
         return res.status(400).json({
           success: false,
-          error: 'Audio data is required',
+          error: 'Audio is required: upload an `audio` file, send the recording as the request body, or send base64 `audio_data`',
           timestamp: new Date().toISOString()
         } as APIResponse);
       }
 
-      // TODO: Integrate with OpenAI Whisper for STT
-      // For now, we'll simulate the process
-      const transcript = "Simulated transcript from voice input";
-      const intent = "request_service";
-      const confidence = 0.95;
-      const responseText = "Your request has been received and a ticket has been created.";
-
-      // Create voice session
-      const voiceSession = await prisma.voiceSession.create({
-        data: {
-          user_id: req.user!.id,
-          transcript,
-          intent_classification: {
-            intent,
-            confidence,
-            entities: {}
-          },
-          response_text: responseText,
-          language,
-          processing_time: 1000, // Simulated processing time
-        }
-      });
-
-      // Create ticket based on voice input
-      const ticket = await prisma.ticket.create({
-        data: {
-          title: `Voice Request - ${intent}`,
-          description: transcript,
-          department: 'concierge', // Default department
-          priority: 'medium',
-          room_number: room_number || req.user!.room_number,
-          guest_notes: `Voice request: ${transcript}`,
-          created_by: req.user!.id,
-          voice_session_id: voiceSession.id
-        },
-        include: {
-          creator: {
-            select: {
-              id: true,
-              first_name: true,
-              last_name: true,
-              role: true
-            }
-          }
-        }
-      });
+      if (!req.file && !rawBody && typeof audio_data !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'Audio data must be a non-empty base64 encoded string',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
 
-      // Update voice session with ticket reference
-      await prisma.voiceSession.update({
-        where: { id: voiceSession.id },
-        data: {
-          tickets: {
-            connect: { id: ticket.id }
-          }
-        }
-      });
+      if (format && !SUPPORTED_AUDIO_FORMATS.includes(format as AudioFormat)) {
+        return res.status(400).json({
+          success: false,
+          error: `Unsupported audio format. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
 
-      // Send WebSocket notification
-      const wsService = getWebSocketService();
-      if (wsService) {
-        wsService.broadcastToRole('housekeeping', {
-          type: WebSocketMessageType.VOICE_RESPONSE,
-          payload: { 
-            voiceSession, 
-            ticket, 
-            action: 'voice_request_processed' 
-          },
+      const audio = req.file?.buffer || (rawBody ? req.body as Buffer : decodeAudioData(audio_data as string));
+      if (!audio || audio.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: rawBody || req.file
+            ? 'Uploaded audio is empty'
+            : 'Audio data must be a non-empty base64 encoded string',
           timestamp: new Date().toISOString()
-        });
+        } as APIResponse);
       }
 
+      // Rejects unrecognized, corrupt, oversized or out-of-range audio with a 4xx
+      const audioInfo = inspectAudio(audio, format);
+
+      const result = await VoicePipeline.process({
+        user: req.user!,
+        audio,
+        format: audioInfo.format,
+        language,
+        roomNumber: room_number,
+        sessionId: session_id,
+        startedAt
+      });
+
       res.json({
         success: true,
         data: {
-          voiceSession,
-          ticket,
-          transcript,
-          response: responseText
+          voiceSession: withAudioDownloadUrls(result.voiceSession),
+          ticket: result.ticket,
+          duplicate_of: result.duplicateOf,
+          transcript: result.transcript,
+          translated_transcript: result.translatedTranscript,
+          language: result.language,
+          response: result.responseText,
+          outcome: result.outcome,
+          knowledge_sources: result.knowledgeSources,
+          awaiting_clarification: result.awaitingClarification,
+          pending_review: result.pendingReview,
+          emergency: result.emergency,
+          degraded: result.degraded,
+          response_audio: result.speech ? result.speech.audio.toString('base64') : '',
+          response_audio_format: result.speech?.format,
+          audio: {
+            format: audioInfo.format,
+            duration_seconds: audioInfo.durationSeconds,
+            sample_rate: audioInfo.sampleRate,
+            channels: audioInfo.channels
+          }
         },
-        message: 'Voice request processed successfully',
+        message: describeResult(result),
         timestamp: new Date().toISOString()
       } as APIResponse);
 
@@ -112,9 +134,17 @@ export class VoiceController {
   // Get voice sessions for a user
   static async getVoiceSessions(req: Request, res: Response, next: NextFunction) {
     try {
-      const { userId } = req.query;
+      const { userId, channel } = req.query;
       const targetUserId = userId || req.user!.id;
 
+      if (channel && channel !== SessionChannel.voice && channel !== SessionChannel.text) {
+        return res.status(400).json({
+          success: false,
+          error: 'channel must be voice or text',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
       // Check permissions
       if (req.user!.role === 'guest' && targetUserId !== req.user!.id) {
         return res.status(403).json({
@@ -125,7 +155,10 @@ export class VoiceController {
       }
 
       const voiceSessions = await prisma.voiceSession.findMany({
-        where: { user_id: targetUserId as string },
+        where: {
+          user_id: targetUserId as string,
+          ...(channel && { channel: channel as SessionChannel })
+        },
         include: {
           user: {
             select: {
@@ -149,7 +182,7 @@ export class VoiceController {
 
       res.json({
         success: true,
-        data: voiceSessions,
+        data: voiceSessions.map(withAudioDownloadUrls),
         timestamp: new Date().toISOString()
       } as APIResponse<VoiceSession[]>);
 
@@ -185,7 +218,18 @@ export class VoiceController {
               created_at: true,
               updated_at: true
             }
-          }
+          },
+          duplicate_of: {
+            select: {
+              id: true,
+              title: true,
+              status: true,
+              department: true,
+              created_at: true
+            }
+          },
+          // Model and TTS usage is for staff only
+          usage: req.user!.role !== 'guest'
         }
       });
 
@@ -208,7 +252,7 @@ export class VoiceController {
 
       res.json({
         success: true,
-        data: voiceSession,
+        data: withAudioDownloadUrls(voiceSession),
         timestamp: new Date().toISOString()
       } as APIResponse<VoiceSession>);
 
@@ -249,12 +293,12 @@ export class VoiceController {
         } as APIResponse);
       }
 
+      const text = PIIVault.protect({ transcript, response_text });
       const updatedSession = await prisma.voiceSession.update({
         where: { id },
         data: {
-          transcript,
+          ...text.data,
           intent_classification,
-          response_text,
           processing_time,
           updated_at: new Date()
         },
@@ -277,6 +321,7 @@ export class VoiceController {
           }
         }
       });
+      await PIIVault.save('voice_session', id, text);
 
       res.json({
         success: true,
@@ -316,9 +361,23 @@ export class VoiceController {
         } as APIResponse);
       }
 
-      await prisma.voiceSession.delete({
-        where: { id }
-      });
+      // The encrypted originals of its PII go with it
+      await prisma.$transaction([
+        PIIVault.forget('voice_session', id),
+        prisma.voiceSession.delete({ where: { id } })
+      ]);
+
+      // Remove stored audio for the deleted session
+      const storage = getStorageBackend();
+      for (const key of collectSessionAudioKeys(voiceSession)) {
+        await storage.delete(key).catch((error) => {
+          logger.warn('Failed to delete voice session audio', {
+            sessionId: id,
+            key,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        });
+      }
 
       res.json({
         success: true,
@@ -330,4 +389,221 @@ export class VoiceController {
       next(error);
     }
   }
+
+  // Original text of a voice session, before PII was masked
+  static async getUnredactedSession(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const voiceSession = await prisma.voiceSession.findUnique({
+        where: { id },
+        include: { user: { select: { hotel_id: true } } }
+      });
+
+      if (!voiceSession || (req.user!.role !== 'super_admin' && voiceSession.user.hotel_id !== req.user!.hotel_id)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Voice session not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const revealed = await PIIVault.reveal('voice_session', id);
+
+      // Audit every view of unredacted guest data; resource_id only references tickets
+      await prisma.auditLog.create({
+        data: {
+          user_id: req.user!.id,
+          action: 'view_unredacted',
+          resource_type: 'voice_session',
+          new_values: { voice_session_id: id, pii_types: revealed?.pii_types || [] },
+          ip_address: req.ip,
+          user_agent: req.get('user-agent')
+        }
+      });
+
+      res.json({
+        success: true,
+        data: {
+          id,
+          transcript: voiceSession.transcript,
+          response_text: voiceSession.response_text,
+          conversation_history: voiceSession.conversation_history,
+          review_data: voiceSession.review_data,
+          ...revealed?.fields,
+          pii_types: revealed?.pii_types || []
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // List low-confidence voice requests waiting for review
+  static async getReviewQueue(req: Request, res: Response, next: NextFunction) {
+    try {
+      const voiceSessions = await ReviewQueue.list(req.user!);
+
+      res.json({
+        success: true,
+        data: voiceSessions.map(withAudioDownloadUrls),
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Approve a held request, optionally correcting its department or priority
+  static async approveReview(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { department, priority, notes } = req.body;
+
+      if (department && !Object.values(Department).includes(department)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid department',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      if (priority && !Object.values(TicketPriority).includes(priority)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid priority',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const result = await ReviewQueue.approve(id, req.user!, { department, priority, notes });
+
+      res.json({
+        success: true,
+        data: result,
+        message: 'Voice request approved and ticket created',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Reject a held request without creating a ticket
+  static async rejectReview(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { reason } = req.body;
+
+      const voiceSession = await ReviewQueue.reject(id, req.user!, reason);
+
+      res.json({
+        success: true,
+        data: voiceSession,
+        message: 'Voice request rejected',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Voices guests can choose from, with the hotel's default and a sample clip of each
+  static async getVoices(req: Request, res: Response, next: NextFunction) {
+    try {
+      const hotelId = req.user!.role === 'super_admin' && typeof req.query.hotel_id === 'string'
+        ? req.query.hotel_id
+        : req.user!.hotel_id;
+      const hotelDefault = await VoicePreferences.getHotelDefault(hotelId);
+
+      res.json({
+        success: true,
+        data: {
+          voices: AVAILABLE_VOICES.map(voice => ({
+            ...voice,
+            sample_url: `/api/voice/voices/${voice.voice_id}/sample`
+          })),
+          hotel_default: hotelDefault,
+          speed_range: ELEVENLABS_CONFIG.SPEED_RANGE
+        },
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Audio clip of a voice reading a short greeting
+  static async getVoiceSample(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { voiceId } = req.params;
+
+      if (!isAvailableVoice(voiceId)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Voice not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const sample = await VoicePreferences.getSample(voiceId, req.user!.hotel_id);
+
+      res.setHeader('Content-Type', sample.contentType);
+      res.setHeader('Cache-Control', 'private, max-age=86400');
+      res.send(sample.audio);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Set the voice used for guests who have not chosen their own
+  static async setDefaultVoice(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { voice_id, speed } = req.body;
+      const hotelId = req.user!.role === 'super_admin' && req.body.hotel_id
+        ? req.body.hotel_id as string
+        : req.user!.hotel_id;
+
+      if (!hotelId) {
+        return res.status(400).json({
+          success: false,
+          error: 'hotel_id is required',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const settingsError = isAvailableVoice(voice_id)
+        ? validateVoicePreferences({ voice_settings: { voice_id, speed } })
+        : `Unknown voice_id. Available voices: ${AVAILABLE_VOICES.map(voice => voice.voice_id).join(', ')}`;
+      if (settingsError) {
+        return res.status(400).json({
+          success: false,
+          error: settingsError,
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      }
+
+      const settings = await VoicePreferences.setHotelDefault(hotelId, {
+        voice_id,
+        ...(speed !== undefined && { speed })
+      }, req.user!.id);
+
+      res.json({
+        success: true,
+        data: settings,
+        message: 'Default voice updated',
+        timestamp: new Date().toISOString()
+      } as APIResponse<HotelVoiceSettings>);
+
+    } catch (error) {
+      next(error);
+    }
+  }
 }
@@ -21,7 +21,17 @@ import logger from './config/logger';
 import authRoutes from './routes/auth';
 import ticketRoutes from './routes/tickets';
 import voiceRoutes from './routes/voice';
+import chatRoutes from './routes/chat';
 import healthRoutes from './routes/health';
+import storageRoutes from './routes/storage';
+import feedbackRoutes from './routes/feedback';
+import knowledgeRoutes from './routes/knowledge';
+import emergencyRoutes from './routes/emergencies';
+import promptRoutes from './routes/prompts';
+import usageRoutes from './routes/usage';
+import analyticsRoutes from './routes/analytics';
+import { startAudioRetentionJob } from './services/audioRetention';
+import { startEmergencyRenotifyJob } from './services/emergency';
 
 // Load environment variables (already done in env.ts)
 dotenv.config();
@@ -70,7 +80,15 @@ app.get('/health', (req, res) => {
 app.use('/api/auth', authRateLimiter, authRoutes);
 app.use('/api/tickets', ticketRoutes);
 app.use('/api/voice', voiceRoutes);
+app.use('/api/chat', chatRoutes);
 app.use('/api/health', healthRoutes);
+app.use('/api/storage', storageRoutes);
+app.use('/api/feedback', feedbackRoutes);
+app.use('/api/knowledge', knowledgeRoutes);
+app.use('/api/emergencies', emergencyRoutes);
+app.use('/api/prompts', promptRoutes);
+app.use('/api/usage', usageRoutes);
+app.use('/api/analytics', analyticsRoutes);
 
 // 404 handler for unmatched routes
 app.use(notFoundHandler);
@@ -121,6 +139,10 @@ try {
   });
 }
 
+// Background jobs
+startAudioRetentionJob();
+startEmergencyRenotifyJob();
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
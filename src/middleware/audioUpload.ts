@@ -0,0 +1,36 @@
+import express, { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { audioConfig } from '../config/env';
+import { ValidationError } from './errorHandler';
+import { audioTooLargeError } from '../services/audio';
+
+const multipartAudio = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: audioConfig.maxUploadBytes, files: 1 }
+}).single('audio');
+
+// The whole request body is the recording; the body parser stops reading at the limit
+const rawAudio = express.raw({ type: () => true, limit: audioConfig.maxUploadBytes });
+
+// Accept a recording as a multipart `audio` file (req.file) or as a raw audio
+// request body (req.body is then a Buffer). JSON requests pass through untouched.
+export const acceptAudioUpload = (req: Request, res: Response, next: NextFunction) => {
+  if (req.is('multipart/form-data')) {
+    return multipartAudio(req, res, (error?: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return next(error.code === 'LIMIT_FILE_SIZE'
+          ? audioTooLargeError()
+          : new ValidationError(`Invalid audio upload: ${error.message}`));
+      }
+      next(error);
+    });
+  }
+
+  if (req.is(['audio/*', 'application/octet-stream'])) {
+    return rawAudio(req, res, (error?: unknown) => {
+      next((error as { type?: string } | undefined)?.type === 'entity.too.large' ? audioTooLargeError() : error);
+    });
+  }
+
+  next();
+};
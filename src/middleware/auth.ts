@@ -70,6 +70,18 @@ export const requireRole = (allowedRoles: UserRole[]) => {
   };
 };
 
+// Hotel a request is scoped to. Super admins may name one, or none for every
+// hotel; everyone else is held to their own and needs to be assigned one.
+export const resolveHotelScope = (req: Request, requested?: unknown): string | null => {
+  if (req.user!.role === 'super_admin') {
+    return typeof requested === 'string' && requested ? requested : null;
+  }
+  if (!req.user!.hotel_id) {
+    throw new AuthorizationError('Your account is not assigned to a hotel');
+  }
+  return req.user!.hotel_id;
+};
+
 export const requireSuperAdmin = requireRole(['super_admin']);
 
 export const requireManager = requireRole([
@@ -77,6 +89,12 @@ export const requireManager = requireRole([
   'general_manager'
 ]);
 
+export const requireLobbyManager = requireRole([
+  'super_admin',
+  'general_manager',
+  'lobby_manager'
+]);
+
 export const requireStaff = requireRole([
   'super_admin',
   'general_manager',
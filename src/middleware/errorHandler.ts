@@ -48,12 +48,42 @@ export class ConflictError extends AppError {
   }
 }
 
+export class PayloadTooLargeError extends AppError {
+  constructor(message: string = 'Payload too large') {
+    super(message, 413, 'PAYLOAD_TOO_LARGE');
+  }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(message: string = 'Unsupported media type') {
+    super(message, 415, 'UNSUPPORTED_MEDIA_TYPE');
+  }
+}
+
+export class UnprocessableEntityError extends AppError {
+  constructor(message: string = 'Unprocessable entity') {
+    super(message, 422, 'UNPROCESSABLE_ENTITY');
+  }
+}
+
 export class RateLimitError extends AppError {
   constructor(message: string = 'Rate limit exceeded') {
     super(message, 429, 'RATE_LIMIT_ERROR');
   }
 }
 
+export class AIServiceError extends AppError {
+  constructor(message: string = 'AI service returned an invalid response') {
+    super(message, 502, 'AI_SERVICE_ERROR');
+  }
+}
+
+export class AIUnavailableError extends AppError {
+  constructor(message: string = 'AI service is temporarily unavailable') {
+    super(message, 503, 'AI_UNAVAILABLE');
+  }
+}
+
 // Error handler middleware
 export const errorHandler = (
   error: Error | AppError,
@@ -97,6 +127,12 @@ export const errorHandler = (
         code = 'DATABASE_ERROR';
     }
   }
+  // Handle request bodies over the body parser limit
+  else if ((error as any).type === 'entity.too.large') {
+    statusCode = 413;
+    message = 'Request body is too large';
+    code = 'PAYLOAD_TOO_LARGE';
+  }
   // Handle validation errors
   else if (error.name === 'ValidationError') {
     statusCode = 400;
@@ -0,0 +1,163 @@
+import { Router } from 'express';
+import { AnalyticsController } from '../controllers/analyticsController';
+import { authenticateUser, requireManager } from '../middleware/auth';
+
+const router = Router();
+
+// Apply authentication and manager access to all analytics routes
+router.use(authenticateUser, requireManager);
+
+/**
+ * @swagger
+ * /api/analytics/voice/summary:
+ *   get:
+ *     summary: Voice assistant performance summary
+ *     description: Session volume by UTC hour of day, processing time, confidence distribution, intent, language and channel mix, ticket conversion and re-routed tickets.
+ *     tags: [Analytics]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to 30 days before end_date
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to now
+ *       - in: query
+ *         name: hotel_id
+ *         schema:
+ *           type: string
+ *         description: Restrict to one hotel (super admin only; general managers see their own)
+ *       - in: query
+ *         name: channel
+ *         schema:
+ *           type: string
+ *           enum: [voice, text]
+ *         description: Only spoken or only text chat sessions
+ *     responses:
+ *       200:
+ *         description: Summary retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.get('/voice/summary', AnalyticsController.getVoiceSummary);
+
+/**
+ * @swagger
+ * /api/analytics/voice/volume:
+ *   get:
+ *     summary: Voice session volume over time
+ *     description: Sessions, sessions that produced a ticket and average processing time per hour or day, with empty buckets included.
+ *     tags: [Analytics]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to 30 days before end_date
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to now
+ *       - in: query
+ *         name: hotel_id
+ *         schema:
+ *           type: string
+ *         description: Restrict to one hotel (super admin only; general managers see their own)
+ *       - in: query
+ *         name: channel
+ *         schema:
+ *           type: string
+ *           enum: [voice, text]
+ *         description: Only spoken or only text chat sessions
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [hour, day]
+ *           default: hour
+ *     responses:
+ *       200:
+ *         description: Volume retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.get('/voice/volume', AnalyticsController.getVoiceVolume);
+
+/**
+ * @swagger
+ * /api/analytics/voice/rerouted:
+ *   get:
+ *     summary: Voice tickets re-routed to another department
+ *     description: Tickets staff moved away from the department the assistant chose, with the intent and confidence of the originating session.
+ *     tags: [Analytics]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to 30 days before end_date
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to now
+ *       - in: query
+ *         name: hotel_id
+ *         schema:
+ *           type: string
+ *         description: Restrict to one hotel (super admin only; general managers see their own)
+ *       - in: query
+ *         name: channel
+ *         schema:
+ *           type: string
+ *           enum: [voice, text]
+ *         description: Only spoken or only text chat sessions
+ *     responses:
+ *       200:
+ *         description: Re-routed tickets retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         description: Invalid filters
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.get('/voice/rerouted', AnalyticsController.getReroutedTickets);
+
+export default router;
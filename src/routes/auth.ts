@@ -203,6 +203,7 @@ router.get('/profile', authenticateUser, AuthController.getProfile);
  *                 type: string
  *               preferences:
  *                 type: object
+ *                 description: Set voice_enabled to false to skip spoken responses, and voice_settings.voice_id and speed to choose a voice from /api/voice/voices
  *               room_number:
  *                 type: string
  *     responses:
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { ChatController } from '../controllers/chatController';
+import { authenticateUser } from '../middleware/auth';
+
+const router = Router();
+
+// Apply authentication middleware to all chat routes
+router.use(authenticateUser);
+
+/**
+ * @swagger
+ * /api/chat:
+ *   post:
+ *     summary: Send a typed message to the assistant
+ *     description: >
+ *       Runs the same intent classification, knowledge base answering and ticket
+ *       generation as voice requests. The conversation is stored as a session with
+ *       channel "text", listed alongside voice sessions under /api/voice/sessions.
+ *       Also available over the WebSocket as a `chat_message` frame, answered with `chat_response`.
+ *     tags: [Chat]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - message
+ *             properties:
+ *               message:
+ *                 type: string
+ *                 maxLength: 2000
+ *               language:
+ *                 type: string
+ *                 description: Language code; detected from the message when omitted. Replies are written in this language.
+ *               room_number:
+ *                 type: string
+ *               session_id:
+ *                 type: string
+ *                 description: Session awaiting clarification that this message answers
+ *     responses:
+ *       200:
+ *         description: Message processed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         description: Missing or too long message
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Session is not awaiting clarification
+ */
+router.post('/', ChatController.sendMessage);
+
+export default router;
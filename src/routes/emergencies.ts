@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { EmergencyController } from '../controllers/emergencyController';
+import { authenticateUser, requireStaff } from '../middleware/auth';
+
+const router = Router();
+
+// Apply authentication middleware to all emergency routes
+router.use(authenticateUser);
+
+/**
+ * @swagger
+ * /api/emergencies:
+ *   get:
+ *     summary: List unacknowledged emergency alerts
+ *     description: Managers are re-alerted over WebSocket until each alert is acknowledged.
+ *     tags: [Emergencies]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active emergency alerts with their tickets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires staff access
+ */
+router.get('/', requireStaff, EmergencyController.getActiveAlerts);
+
+/**
+ * @swagger
+ * /api/emergencies/{id}/acknowledge:
+ *   post:
+ *     summary: Acknowledge an emergency alert
+ *     tags: [Emergencies]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Emergency alert ID
+ *     responses:
+ *       200:
+ *         description: Emergency acknowledged
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires staff access
+ *       404:
+ *         description: Emergency alert not found
+ *       409:
+ *         description: Emergency alert already acknowledged
+ */
+router.post('/:id/acknowledge', requireStaff, EmergencyController.acknowledgeAlert);
+
+export default router;
@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { FeedbackController } from '../controllers/feedbackController';
+import { authenticateUser, requireLobbyManager } from '../middleware/auth';
+
+const router = Router();
+
+// Apply authentication middleware to all feedback routes
+router.use(authenticateUser);
+
+/**
+ * @swagger
+ * /api/feedback:
+ *   get:
+ *     summary: List guest feedback recorded from voice requests
+ *     tags: [Feedback]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: hotel_id
+ *         schema:
+ *           type: string
+ *         description: Filter by hotel (super admin only; managers see their own hotel)
+ *       - in: query
+ *         name: sentiment
+ *         schema:
+ *           type: string
+ *           enum: [positive, negative]
+ *         description: Filter by sentiment
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Feedback retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.get('/', requireLobbyManager, FeedbackController.getFeedback);
+
+export default router;
@@ -0,0 +1,219 @@
+import { Router } from 'express';
+import { KnowledgeBaseController } from '../controllers/knowledgeBaseController';
+import { authenticateUser, requireLobbyManager, requireStaff } from '../middleware/auth';
+
+const router = Router();
+
+// Apply authentication middleware to all knowledge base routes
+router.use(authenticateUser);
+
+/**
+ * @swagger
+ * /api/knowledge:
+ *   get:
+ *     summary: List knowledge base articles for a hotel
+ *     tags: [Knowledge Base]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: hotel_id
+ *         schema:
+ *           type: string
+ *         description: Hotel ID (super admin only; staff use their own hotel)
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           enum: [amenities, wifi, policies, dining, local_recommendations, general]
+ *         description: Filter by category
+ *       - in: query
+ *         name: include_inactive
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Articles retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', requireStaff, KnowledgeBaseController.getArticles);
+
+/**
+ * @swagger
+ * /api/knowledge:
+ *   post:
+ *     summary: Create a knowledge base article
+ *     tags: [Knowledge Base]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - content
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 example: Pool hours
+ *               content:
+ *                 type: string
+ *                 example: The rooftop pool is open daily from 7am to 10pm.
+ *               category:
+ *                 type: string
+ *                 enum: [amenities, wifi, policies, dining, local_recommendations, general]
+ *                 default: general
+ *               hotel_id:
+ *                 type: string
+ *                 description: Hotel ID (super admin only)
+ *     responses:
+ *       201:
+ *         description: Article created successfully
+ *       400:
+ *         description: Missing required fields or invalid category
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.post('/', requireLobbyManager, KnowledgeBaseController.createArticle);
+
+/**
+ * @swagger
+ * /api/knowledge/search:
+ *   post:
+ *     summary: Semantic search over a hotel's knowledge base
+ *     tags: [Knowledge Base]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - query
+ *             properties:
+ *               query:
+ *                 type: string
+ *                 example: What time does the pool close?
+ *               limit:
+ *                 type: integer
+ *                 default: 3
+ *               hotel_id:
+ *                 type: string
+ *                 description: Hotel ID (super admin only)
+ *     responses:
+ *       200:
+ *         description: Matching articles with similarity scores
+ *       400:
+ *         description: Missing required fields
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/search', requireStaff, KnowledgeBaseController.search);
+
+/**
+ * @swagger
+ * /api/knowledge/reindex:
+ *   post:
+ *     summary: Re-embed all articles with the current embedding provider
+ *     tags: [Knowledge Base]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               hotel_id:
+ *                 type: string
+ *                 description: Hotel ID (super admin only)
+ *     responses:
+ *       200:
+ *         description: Knowledge base reindexed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.post('/reindex', requireLobbyManager, KnowledgeBaseController.reindex);
+
+/**
+ * @swagger
+ * /api/knowledge/{id}:
+ *   put:
+ *     summary: Update a knowledge base article
+ *     tags: [Knowledge Base]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Article ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               content:
+ *                 type: string
+ *               category:
+ *                 type: string
+ *                 enum: [amenities, wifi, policies, dining, local_recommendations, general]
+ *               active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Article updated successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Article not found
+ */
+router.put('/:id', requireLobbyManager, KnowledgeBaseController.updateArticle);
+
+/**
+ * @swagger
+ * /api/knowledge/{id}:
+ *   delete:
+ *     summary: Delete a knowledge base article
+ *     tags: [Knowledge Base]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Article ID
+ *     responses:
+ *       200:
+ *         description: Article deleted successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Article not found
+ */
+router.delete('/:id', requireLobbyManager, KnowledgeBaseController.deleteArticle);
+
+export default router;
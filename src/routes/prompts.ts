@@ -0,0 +1,197 @@
+import { Router } from 'express';
+import { PromptController } from '../controllers/promptController';
+import { authenticateUser, requireManager } from '../middleware/auth';
+
+const router = Router();
+
+// Apply authentication middleware to all prompt routes
+router.use(authenticateUser);
+
+/**
+ * @swagger
+ * /api/prompts:
+ *   get:
+ *     summary: List prompt versions and the built-in defaults
+ *     tags: [Prompts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: key
+ *         schema:
+ *           type: string
+ *           enum: [HOSPITALITY_ASSISTANT, INTENT_CLASSIFIER, TICKET_GENERATOR]
+ *       - in: query
+ *         name: hotel_id
+ *         schema:
+ *           type: string
+ *         description: Hotel overrides (super admin only; omit for global prompts)
+ *     responses:
+ *       200:
+ *         description: Prompt versions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.get('/', requireManager, PromptController.getPrompts);
+
+/**
+ * @swagger
+ * /api/prompts:
+ *   post:
+ *     summary: Create a new prompt version
+ *     description: New versions serve no traffic until activated or given a traffic share.
+ *     tags: [Prompts]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - key
+ *               - content
+ *             properties:
+ *               key:
+ *                 type: string
+ *                 enum: [HOSPITALITY_ASSISTANT, INTENT_CLASSIFIER, TICKET_GENERATOR]
+ *               content:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               hotel_id:
+ *                 type: string
+ *                 description: Hotel override (super admin only; omit for a global prompt)
+ *     responses:
+ *       201:
+ *         description: Prompt version created successfully
+ *       400:
+ *         description: Missing required fields or invalid key
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.post('/', requireManager, PromptController.createPrompt);
+
+/**
+ * @swagger
+ * /api/prompts/traffic:
+ *   put:
+ *     summary: Split traffic between versions of a prompt for A/B testing
+ *     tags: [Prompts]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - key
+ *               - weights
+ *             properties:
+ *               key:
+ *                 type: string
+ *                 enum: [HOSPITALITY_ASSISTANT, INTENT_CLASSIFIER, TICKET_GENERATOR]
+ *               weights:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: integer
+ *                   minimum: 0
+ *                   maximum: 100
+ *                 description: Prompt version ID to traffic weight; omitted versions stop serving
+ *                 example: { "clx1a": 50, "clx2b": 50 }
+ *               hotel_id:
+ *                 type: string
+ *                 description: Hotel scope (super admin only)
+ *     responses:
+ *       200:
+ *         description: Traffic split updated
+ *       400:
+ *         description: Invalid key or weights
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.put('/traffic', requireManager, PromptController.setTrafficSplit);
+
+/**
+ * @swagger
+ * /api/prompts/compare:
+ *   get:
+ *     summary: Compare voice session outcomes across versions of a prompt
+ *     tags: [Prompts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [HOSPITALITY_ASSISTANT, INTENT_CLASSIFIER, TICKET_GENERATOR]
+ *       - in: query
+ *         name: hotel_id
+ *         schema:
+ *           type: string
+ *         description: Hotel to compare (super admin only; omit for all hotels)
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Per-version session counts, confidence, processing time, outcomes and review rates
+ *       400:
+ *         description: Invalid key or date range
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.get('/compare', requireManager, PromptController.comparePrompts);
+
+/**
+ * @swagger
+ * /api/prompts/{id}/activate:
+ *   post:
+ *     summary: Serve a prompt version for all traffic in its scope
+ *     tags: [Prompts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Prompt version ID
+ *     responses:
+ *       200:
+ *         description: Prompt version activated
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ *       404:
+ *         description: Prompt version not found
+ */
+router.post('/:id/activate', requireManager, PromptController.activatePrompt);
+
+export default router;
@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { StorageController } from '../controllers/storageController';
+import { authenticateUser, requireSuperAdmin } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/storage/cleanup:
+ *   post:
+ *     summary: Delete stored voice audio older than the retention window
+ *     tags: [Storage]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               retention_days:
+ *                 type: integer
+ *                 description: Override the configured retention window
+ *     responses:
+ *       200:
+ *         description: Cleanup completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires super admin access
+ */
+router.post('/cleanup', authenticateUser, requireSuperAdmin, StorageController.cleanup);
+
+/**
+ * @swagger
+ * /api/storage/{key}:
+ *   get:
+ *     summary: Download a stored file through a signed URL
+ *     tags: [Storage]
+ *     description: Signed URLs are returned by the voice session endpoints and expire after STORAGE_URL_TTL_SECONDS
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Storage object key
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Expiry as a Unix timestamp
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: URL signature
+ *     responses:
+ *       200:
+ *         description: File contents
+ *       403:
+ *         description: Invalid or expired download link
+ *       404:
+ *         description: File not found
+ */
+router.get('/*', StorageController.download);
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { TicketController } from '../controllers/ticketController';
-import { authenticateUser, requireStaff } from '../middleware/auth';
+import { authenticateUser, requireLobbyManager, requireManager, requireStaff } from '../middleware/auth';
 
 const router = Router();
 
@@ -137,11 +137,48 @@ router.get('/', TicketController.getTickets);
  */
 router.get('/:id', TicketController.getTicketById);
 
+/**
+ * @swagger
+ * /api/tickets/{id}/unredacted:
+ *   get:
+ *     summary: Get the original, unredacted text of a ticket
+ *     description: Text is stored with card, phone, ID and passport numbers and email addresses masked. Each view is audit logged.
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID
+ *     responses:
+ *       200:
+ *         description: Unredacted text retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ *       404:
+ *         description: Ticket not found
+ */
+router.get('/:id/unredacted', requireManager, TicketController.getUnredactedTicket);
+
 /**
  * @swagger
  * /api/tickets/{id}/status:
  *   put:
  *     summary: Update ticket status
+ *     description: |
+ *       Statuses follow a state machine: pending → in_progress → completed. Staff start, complete or hand
+ *       back work; guests may cancel their own pending tickets and reopen their own completed ones; managers
+ *       cancel work in progress and reopen cancelled tickets. Reopened tickets return to pending. Every change
+ *       is recorded in the ticket's status history.
  *     tags: [Tickets]
  *     security:
  *       - BearerAuth: []
@@ -167,17 +204,103 @@ router.get('/:id', TicketController.getTicketById);
  *                 description: New ticket status
  *               staff_notes:
  *                 type: string
- *                 description: Staff notes about the status change
+ *                 description: Staff notes about the status change (ignored for guests)
+ *               reason:
+ *                 type: string
+ *                 description: Why the status changed, kept in the status history
  *     responses:
  *       200:
  *         description: Ticket status updated successfully
+ *       400:
+ *         description: Invalid status
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Your role cannot make this transition
  *       404:
  *         description: Ticket not found
+ *       409:
+ *         description: Transition not allowed from the ticket's current status
  */
 router.put('/:id/status', TicketController.updateTicketStatus);
 
+/**
+ * @swagger
+ * /api/tickets/{id}/history:
+ *   get:
+ *     summary: Get the status history of a ticket
+ *     description: Every status change with who made it and when, oldest first, and the statuses you may move the ticket to next.
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID
+ *     responses:
+ *       200:
+ *         description: Status history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Ticket not found
+ */
+router.get('/:id/history', TicketController.getTicketHistory);
+
+/**
+ * @swagger
+ * /api/tickets/{id}/department:
+ *   put:
+ *     summary: Re-route a ticket to another department
+ *     description: The first department is kept in original_department and counted as a misroute in voice analytics.
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - department
+ *             properties:
+ *               department:
+ *                 type: string
+ *                 enum: [housekeeping, maintenance, front_desk, concierge, room_service]
+ *               reason:
+ *                 type: string
+ *                 description: Why the ticket was re-routed, kept in the audit log
+ *     responses:
+ *       200:
+ *         description: Ticket re-routed successfully
+ *       400:
+ *         description: Invalid or unchanged department
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires lobby manager access
+ *       404:
+ *         description: Ticket not found
+ */
+router.put('/:id/department', requireLobbyManager, TicketController.rerouteTicket);
+
 /**
  * @swagger
  * /api/tickets/{id}/assign:
@@ -217,6 +340,168 @@ router.put('/:id/status', TicketController.updateTicketStatus);
  */
 router.put('/:id/assign', requireStaff, TicketController.assignTicket);
 
+/**
+ * @swagger
+ * /api/tickets/{id}/comments:
+ *   get:
+ *     summary: Get the comment thread of a ticket
+ *     description: Oldest first. Staff see internal notes and guest-visible replies; guests see only the replies meant for them.
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID
+ *     responses:
+ *       200:
+ *         description: Comments retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/TicketComment'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Ticket not found
+ *   post:
+ *     summary: Comment on a ticket
+ *     description: |
+ *       Staff comments are internal notes unless visibility is guest. Guests can only post guest-visible replies.
+ *       Mentioned staff are notified, and new comments are sent live as TICKET_UPDATE messages.
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *                 maxLength: 5000
+ *               visibility:
+ *                 type: string
+ *                 enum: [internal, guest]
+ *                 default: internal
+ *               mentions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: IDs of staff users in the ticket's hotel to notify (staff only)
+ *     responses:
+ *       201:
+ *         description: Comment added successfully
+ *       400:
+ *         description: Invalid comment or mentions
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Ticket not found
+ */
+router.get('/:id/comments', TicketController.getComments);
+router.post('/:id/comments', TicketController.addComment);
+
+/**
+ * @swagger
+ * /api/tickets/{id}/comments/{commentId}:
+ *   put:
+ *     summary: Edit a comment
+ *     description: Only the author can edit. The previous text is kept in the audit log, and newly mentioned staff are notified.
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Comment ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               body:
+ *                 type: string
+ *                 maxLength: 5000
+ *               visibility:
+ *                 type: string
+ *                 enum: [internal, guest]
+ *               mentions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Comment updated successfully
+ *       400:
+ *         description: Invalid comment or mentions
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Only the author can edit a comment
+ *       404:
+ *         description: Ticket or comment not found
+ *   delete:
+ *     summary: Delete a comment
+ *     description: The author or a manager can delete. The comment is hidden and its text kept in the audit log.
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Comment ID
+ *     responses:
+ *       200:
+ *         description: Comment deleted successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Only the author or a manager can delete a comment
+ *       404:
+ *         description: Ticket or comment not found
+ */
+router.put('/:id/comments/:commentId', TicketController.updateComment);
+router.delete('/:id/comments/:commentId', TicketController.deleteComment);
+
 /**
  * @swagger
  * /api/tickets/{id}:
@@ -0,0 +1,119 @@
+import { Router } from 'express';
+import { UsageController } from '../controllers/usageController';
+import { authenticateUser, requireManager, requireSuperAdmin } from '../middleware/auth';
+
+const router = Router();
+
+// Apply authentication middleware to all usage routes
+router.use(authenticateUser);
+
+/**
+ * @swagger
+ * /api/usage/report:
+ *   get:
+ *     summary: Model token, audio and TTS usage per hotel and per day
+ *     description: Includes estimated cost and each hotel's budget status for the current month.
+ *     tags: [Usage]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to 30 days before end_date
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to now
+ *       - in: query
+ *         name: hotel_id
+ *         schema:
+ *           type: string
+ *         description: Restrict to one hotel (super admin only; general managers see their own)
+ *     responses:
+ *       200:
+ *         description: Usage report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       400:
+ *         description: Invalid date range
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.get('/report', requireManager, UsageController.getReport);
+
+/**
+ * @swagger
+ * /api/usage/budget:
+ *   get:
+ *     summary: Get a hotel's monthly usage budget and month-to-date usage
+ *     tags: [Usage]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: hotel_id
+ *         schema:
+ *           type: string
+ *         description: Required for super admins
+ *     responses:
+ *       200:
+ *         description: Budget status retrieved successfully
+ *       400:
+ *         description: Missing hotel
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.get('/budget', requireManager, UsageController.getBudget);
+
+/**
+ * @swagger
+ * /api/usage/budget:
+ *   put:
+ *     summary: Set a hotel's monthly usage budget
+ *     description: When either limit is reached, until the next month the hotel's requests are handled by the rule-based classifier without translation or duplicate checks, and questions become front desk tickets. Transcription and speech continue.
+ *     tags: [Usage]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - hotel_id
+ *             properties:
+ *               hotel_id:
+ *                 type: string
+ *               monthly_token_limit:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Prompt plus completion tokens; null removes the limit
+ *               monthly_cost_limit:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Estimated USD; null removes the limit
+ *     responses:
+ *       200:
+ *         description: Budget updated successfully
+ *       400:
+ *         description: Invalid limits
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires super admin access
+ */
+router.put('/budget', requireSuperAdmin, UsageController.setBudget);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { VoiceController } from '../controllers/voiceController';
-import { authenticateUser } from '../middleware/auth';
+import { authenticateUser, requireLobbyManager, requireManager } from '../middleware/auth';
+import { acceptAudioUpload } from '../middleware/audioUpload';
 
 const router = Router();
 
@@ -12,6 +13,13 @@ router.use(authenticateUser);
  * /api/voice/process:
  *   post:
  *     summary: Process voice input and create ticket
+ *     description: >
+ *       The recording can be uploaded as a multipart `audio` file, streamed as the raw
+ *       request body (Content-Type audio/wav, audio/mpeg, audio/webm or
+ *       application/octet-stream, with the other fields in the query string), or sent
+ *       as base64 `audio_data` in JSON. The format is detected from the file contents.
+ *       Uploads are limited by AUDIO_MAX_UPLOAD_MB, AUDIO_MAX_DURATION_SECONDS and
+ *       the AUDIO_MIN/MAX_SAMPLE_RATE settings.
  *     tags: [Voice]
  *     security:
  *       - BearerAuth: []
@@ -23,21 +31,41 @@ router.use(authenticateUser);
  *             type: object
  *             required:
  *               - audio_data
- *               - user_id
  *             properties:
  *               audio_data:
  *                 type: string
  *                 description: Base64 encoded audio data
- *               user_id:
+ *               format:
  *                 type: string
- *                 description: User ID
+ *                 enum: [wav, mp3, webm]
+ *                 description: Declared audio container format; the detected format takes precedence
  *               language:
  *                 type: string
- *                 default: en
- *                 description: Language code
- *               metadata:
- *                 type: object
- *                 description: Additional metadata
+ *                 description: Language code; detected from the speech when omitted. Responses are spoken in this language.
+ *               room_number:
+ *                 type: string
+ *               session_id:
+ *                 type: string
+ *                 description: Voice session awaiting clarification that this recording answers
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - audio
+ *             properties:
+ *               audio:
+ *                 type: string
+ *                 format: binary
+ *               language:
+ *                 type: string
+ *               room_number:
+ *                 type: string
+ *               session_id:
+ *                 type: string
+ *         audio/*:
+ *           schema:
+ *             type: string
+ *             format: binary
  *     responses:
  *       200:
  *         description: Voice processed successfully
@@ -46,11 +74,19 @@ router.use(authenticateUser);
  *             schema:
  *               $ref: '#/components/schemas/ApiResponse'
  *       400:
- *         description: Invalid audio data
+ *         description: Missing or undecodable audio data
+ *       409:
+ *         description: Voice session is not awaiting clarification
+ *       413:
+ *         description: Audio exceeds the upload size or duration limit
+ *       415:
+ *         description: Unrecognized audio format or unsupported WAV encoding
+ *       422:
+ *         description: Corrupt audio, sample rate out of range, or no speech detected
  *       401:
  *         description: Unauthorized
  */
-router.post('/process', VoiceController.processVoice);
+router.post('/process', acceptAudioUpload, VoiceController.processVoice);
 
 /**
  * @swagger
@@ -67,6 +103,12 @@ router.post('/process', VoiceController.processVoice);
  *           type: string
  *         description: User ID to filter sessions
  *       - in: query
+ *         name: channel
+ *         schema:
+ *           type: string
+ *           enum: [voice, text]
+ *         description: Only spoken or only text chat sessions
+ *       - in: query
  *         name: limit
  *         schema:
  *           type: integer
@@ -119,6 +161,38 @@ router.get('/sessions', VoiceController.getVoiceSessions);
  */
 router.get('/sessions/:id', VoiceController.getVoiceSessionById);
 
+/**
+ * @swagger
+ * /api/voice/sessions/{id}/unredacted:
+ *   get:
+ *     summary: Get the original, unredacted text of a voice session
+ *     description: Text is stored with card, phone, ID and passport numbers and email addresses masked. Each view is audit logged.
+ *     tags: [Voice]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Voice session ID
+ *     responses:
+ *       200:
+ *         description: Unredacted text retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ *       404:
+ *         description: Voice session not found
+ */
+router.get('/sessions/:id/unredacted', requireManager, VoiceController.getUnredactedSession);
+
 /**
  * @swagger
  * /api/voice/sessions/{id}:
@@ -191,4 +265,194 @@ router.put('/sessions/:id', VoiceController.updateVoiceSession);
  */
 router.delete('/sessions/:id', VoiceController.deleteVoiceSession);
 
+/**
+ * @swagger
+ * /api/voice/review:
+ *   get:
+ *     summary: List low-confidence voice requests waiting for review
+ *     tags: [Voice]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Pending voice sessions with their proposed ticket in review_data
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.get('/review', requireLobbyManager, VoiceController.getReviewQueue);
+
+/**
+ * @swagger
+ * /api/voice/review/{id}/approve:
+ *   post:
+ *     summary: Approve a held voice request and create its ticket
+ *     tags: [Voice]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Voice session ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               department:
+ *                 type: string
+ *                 enum: [housekeeping, maintenance, room_service, concierge, front_desk]
+ *                 description: Corrected department
+ *               priority:
+ *                 type: string
+ *                 enum: [low, medium, high, urgent]
+ *                 description: Corrected priority
+ *               notes:
+ *                 type: string
+ *                 description: Reviewer notes
+ *     responses:
+ *       200:
+ *         description: Ticket created
+ *       400:
+ *         description: Invalid department or priority
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ *       404:
+ *         description: Voice session not found
+ *       409:
+ *         description: Voice session is not pending review
+ */
+router.post('/review/:id/approve', requireLobbyManager, VoiceController.approveReview);
+
+/**
+ * @swagger
+ * /api/voice/review/{id}/reject:
+ *   post:
+ *     summary: Reject a held voice request without creating a ticket
+ *     tags: [Voice]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Voice session ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Voice request rejected
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ *       404:
+ *         description: Voice session not found
+ *       409:
+ *         description: Voice session is not pending review
+ */
+router.post('/review/:id/reject', requireLobbyManager, VoiceController.rejectReview);
+
+/**
+ * @swagger
+ * /api/voice/voices:
+ *   get:
+ *     summary: List the voices guests can choose for spoken responses
+ *     description: Guests pick a voice by setting preferences.voice_settings.voice_id on their profile; without one, the hotel default is used.
+ *     tags: [Voice]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: hotel_id
+ *         schema:
+ *           type: string
+ *         description: Hotel whose default voice to include (super admins only)
+ *     responses:
+ *       200:
+ *         description: Voices with sample clip URLs, the hotel default and the allowed speed range
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/voices', VoiceController.getVoices);
+
+/**
+ * @swagger
+ * /api/voice/voices/default:
+ *   put:
+ *     summary: Set the hotel's default voice
+ *     tags: [Voice]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - voice_id
+ *             properties:
+ *               voice_id:
+ *                 type: string
+ *               speed:
+ *                 type: number
+ *                 description: Speaking rate between 0.7 and 1.2; 1 is normal speed
+ *               hotel_id:
+ *                 type: string
+ *                 description: Required for super admins
+ *     responses:
+ *       200:
+ *         description: Default voice updated successfully
+ *       400:
+ *         description: Unknown voice, invalid speed or missing hotel
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Requires manager access
+ */
+router.put('/voices/default', requireManager, VoiceController.setDefaultVoice);
+
+/**
+ * @swagger
+ * /api/voice/voices/{voiceId}/sample:
+ *   get:
+ *     summary: Play a sample clip of a voice
+ *     tags: [Voice]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: voiceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Audio clip
+ *         content:
+ *           audio/mpeg: {}
+ *           audio/wav: {}
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Voice not found
+ */
+router.get('/voices/:voiceId/sample', VoiceController.getVoiceSample);
+
 export default router;
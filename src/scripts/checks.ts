@@ -0,0 +1,531 @@
+import './offlineEnv';
+import assert from 'assert';
+import { redactText, redactValue, PIIType } from '../services/redaction';
+import logger from '../config/logger';
+import { detectAudioFormat, inspectAudio, wavHeader } from '../services/audio';
+import { allowedTransitions, TICKET_TRANSITIONS, TicketWorkflow } from '../services/ticketStatus';
+import { MAX_COMMENT_LENGTH, MAX_MENTIONS, validateCommentInput } from '../services/ticketComments';
+import { createSignedUrl, verifySignedUrl } from '../services/storage';
+import { closestTicket, DuplicateCandidate } from '../services/duplicateRequests';
+import { CircuitBreaker, CircuitOpenError } from '../services/circuitBreaker';
+import { isAIFailure, ModelProvider, ResilientModelProvider, setModelProvider } from '../services/modelProvider';
+import { TicketGenerator } from '../services/ticketGenerator';
+import { parseIntentClassification } from '../services/intentClassifier';
+import { RuleBasedClassifier } from '../services/ruleBasedClassifier';
+import { completeStructured } from '../services/structuredCompletion';
+import { detectEmergency } from '../services/emergency';
+import { choosePrompts, recordPromptVersions } from '../services/promptRegistry';
+import { AIServiceError, AIUnavailableError, AppError } from '../middleware/errorHandler';
+import { CommentVisibility, Department, PromptVersion, Ticket, TicketPriority, TicketStatus, User } from '../types';
+
+// Offline checks of logic that needs no database, network or API keys.
+//
+//   npm run checks [-- <name filter>]
+//
+// Each check throws (through node's assert) on failure; the script exits
+// non-zero if any check failed.
+
+interface Check {
+  name: string;
+  run: () => void | Promise<void>;
+}
+
+const checks: Check[] = [];
+const check = (name: string, run: Check['run']) => checks.push({ name, run });
+
+// PII redaction
+
+check('redaction: masks card numbers that pass the Luhn check', () => {
+  const result = redactText('My card is 4111 1111 1111 1111, charge it');
+  assert.strictEqual(result.text, 'My card is [card ending 1111], charge it');
+  assert.deepStrictEqual(result.types, ['card_number']);
+});
+
+check('redaction: leaves long numbers that are not cards', () => {
+  assert.strictEqual(redactText('Booking 4111 1111 1111 1112').text, 'Booking 4111 1111 1111 1112');
+});
+
+check('redaction: masks ID numbers, passports, emails and phone numbers', () => {
+  const result = redactText(
+    'SSN 123-45-6789, passport number is X1234567, mail jane.doe@example.com or call +1 415 555 0100'
+  );
+  assert.strictEqual(
+    result.text,
+    'SSN [id number], passport number is [passport number], mail [email] or call [phone number]'
+  );
+  assert.deepStrictEqual(
+    [...result.types].sort(),
+    ['email', 'national_id', 'passport_number', 'phone_number']
+  );
+});
+
+check('redaction: keeps room numbers, dates and times', () => {
+  const text = 'Room 1204 needs towels on 2024-05-01 at 10:30, two of them';
+  assert.deepStrictEqual(redactText(text), { text, types: [] });
+});
+
+check('redaction: keeps dates written with dots or dashes', () => {
+  for (const date of ['2026-10-19', '19.10.2026', '10-19-2026', '2026.10.19', '1.10.2026']) {
+    const text = `Arriving ${date}, leaving a week later`;
+    assert.deepStrictEqual(redactText(text), { text, types: [] }, date);
+  }
+  assert.strictEqual(redactText('Call 0176.1234.5678').text, 'Call [phone number]');
+  assert.strictEqual(redactText('Call 555-123-4567').text, 'Call [phone number]');
+});
+
+check('redaction: redactValue masks nested strings and reports their types', () => {
+  const types = new Set<PIIType>();
+  const createdAt = new Date();
+  const value = {
+    history: [{ role: 'guest', content: 'Email me at guest@example.com' }],
+    room: '305',
+    created_at: createdAt
+  };
+
+  const redacted = redactValue(value, types);
+  assert.strictEqual(redacted.history[0].content, 'Email me at [email]');
+  assert.strictEqual(redacted.room, '305');
+  assert.strictEqual(redacted.created_at, createdAt);
+  assert.deepStrictEqual([...types], ['email']);
+  assert.strictEqual(value.history[0].content, 'Email me at guest@example.com', 'input is not modified');
+});
+
+check('redaction: logged errors have their message and stack masked', () => {
+  const entry = logger.format.transform({
+    level: 'error',
+    message: new Error('Refund failed for guest@example.com')
+  } as never) as Record<string, unknown>;
+
+  assert.ok(entry, 'entry is kept');
+  assert.strictEqual(entry.message, 'Refund failed for [email]');
+  assert.ok(typeof entry.stack === 'string' && !entry.stack.includes('guest@example.com'), 'stack is masked');
+});
+
+// Audio probing
+
+// A silent mono 16-bit WAV clip
+const wavClip = (seconds: number, sampleRate: number) => {
+  const dataSize = Math.round(seconds * sampleRate) * 2;
+  return Buffer.concat([wavHeader(dataSize, sampleRate), Buffer.alloc(dataSize)]);
+};
+
+const rejectsWithStatus = (fn: () => unknown, statusCode: number) =>
+  assert.throws(fn, (error: unknown) => error instanceof AppError && error.statusCode === statusCode);
+
+check('audio: detects formats from their first bytes', () => {
+  assert.strictEqual(detectAudioFormat(wavClip(1, 16000)), 'wav');
+  assert.strictEqual(detectAudioFormat(Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x01])), 'webm');
+  assert.strictEqual(detectAudioFormat(Buffer.from('ID3\u0004\u0000', 'latin1')), 'mp3');
+  assert.strictEqual(detectAudioFormat(Buffer.from([0xff, 0xfb, 0x90, 0x64])), 'mp3');
+  assert.strictEqual(detectAudioFormat(Buffer.from('I need more towels')), null);
+});
+
+check('audio: reads duration, sample rate and channels of a WAV clip', () => {
+  assert.deepStrictEqual(inspectAudio(wavClip(2, 16000), 'webm'), {
+    format: 'wav',
+    durationSeconds: 2,
+    sampleRate: 16000,
+    channels: 1
+  });
+});
+
+check('audio: rejects text, empty, too long and out-of-range clips', () => {
+  rejectsWithStatus(() => inspectAudio(Buffer.from('I need more towels')), 415);
+  rejectsWithStatus(() => inspectAudio(wavClip(0, 16000)), 422);
+  rejectsWithStatus(() => inspectAudio(wavClip(4, 4000)), 422);
+  rejectsWithStatus(() => inspectAudio(wavClip(121, 8000)), 413);
+});
+
+// Ticket status transitions
+
+check('tickets: staff move work along and managers cancel work under way', () => {
+  assert.deepStrictEqual(allowedTransitions(TicketStatus.pending, 'housekeeping'), [
+    TicketStatus.in_progress,
+    TicketStatus.cancelled
+  ]);
+  assert.deepStrictEqual(allowedTransitions(TicketStatus.in_progress, 'housekeeping'), [
+    TicketStatus.completed,
+    TicketStatus.pending
+  ]);
+  assert.ok(allowedTransitions(TicketStatus.in_progress, 'lobby_manager').includes(TicketStatus.cancelled));
+  assert.deepStrictEqual(allowedTransitions(TicketStatus.cancelled, 'housekeeping'), []);
+});
+
+check('tickets: guests can only withdraw pending and reopen completed requests', () => {
+  const guestMoves = Object.values(TicketStatus).map(from => [from, allowedTransitions(from, 'guest')]);
+  assert.deepStrictEqual(guestMoves, [
+    [TicketStatus.pending, [TicketStatus.cancelled]],
+    [TicketStatus.in_progress, []],
+    [TicketStatus.completed, [TicketStatus.pending]],
+    [TicketStatus.cancelled, []]
+  ]);
+});
+
+check('tickets: no status moves to itself', () => {
+  for (const [from, moves] of Object.entries(TICKET_TRANSITIONS)) {
+    assert.ok(!(from in moves), `${from} lists itself`);
+  }
+});
+
+const user = (role: User['role']) => ({ id: 'user-1', role }) as User;
+
+check('tickets: invalid moves are rejected before anything is written', async () => {
+  const ticket = { id: 'ticket-1', status: TicketStatus.completed } as Ticket;
+  const rejectsWith = (promise: Promise<unknown>, statusCode: number) =>
+    assert.rejects(promise, (error: unknown) => error instanceof AppError && error.statusCode === statusCode);
+
+  await rejectsWith(TicketWorkflow.transition(ticket, TicketStatus.completed, user('housekeeping')), 409);
+  await rejectsWith(TicketWorkflow.transition(ticket, TicketStatus.in_progress, user('general_manager')), 409);
+  await rejectsWith(
+    TicketWorkflow.transition({ ...ticket, status: TicketStatus.pending }, TicketStatus.in_progress, user('guest')),
+    403
+  );
+});
+
+// Ticket comments
+
+check('comments: guests can only post visible replies without mentions', () => {
+  const guest = user('guest');
+  assert.strictEqual(validateCommentInput({ body: 'Thanks!' }, guest), null);
+  assert.strictEqual(validateCommentInput({ body: 'Thanks!', visibility: CommentVisibility.guest }, guest), null);
+  assert.match(validateCommentInput({ body: 'Hi', visibility: CommentVisibility.internal }, guest)!, /Guests/);
+  assert.match(validateCommentInput({ body: 'Hi', mentions: ['user-2'] }, guest)!, /Guests/);
+});
+
+check('comments: staff input is checked for body, visibility and mentions', () => {
+  const staff = user('housekeeping');
+  assert.strictEqual(validateCommentInput({ body: 'Towels sent', mentions: ['user-2'] }, staff), null);
+  assert.strictEqual(validateCommentInput({ body: '   ' }, staff), 'body is required');
+  assert.match(validateCommentInput({ body: 'x'.repeat(MAX_COMMENT_LENGTH + 1) }, staff)!, /at most/);
+  assert.match(validateCommentInput({ body: 'Hi', visibility: 'public' as CommentVisibility }, staff)!, /visibility/);
+  assert.match(validateCommentInput({ body: 'Hi', mentions: [42] as unknown as string[] }, staff)!, /mentions/);
+  assert.match(
+    validateCommentInput({ body: 'Hi', mentions: Array.from({ length: MAX_MENTIONS + 1 }, (_, i) => `user-${i}`) }, staff)!,
+    /At most/
+  );
+});
+
+check('comments: partial updates may leave the body out', () => {
+  const staff = user('lobby_manager');
+  assert.strictEqual(validateCommentInput({ visibility: CommentVisibility.guest }, staff, true), null);
+  assert.strictEqual(validateCommentInput({ visibility: CommentVisibility.guest }, staff), 'body is required');
+});
+
+// Signed storage URLs
+
+// Key, expiry and signature of a URL from createSignedUrl
+const parseSignedUrl = (url: string) => {
+  const { pathname, searchParams } = new URL(url, 'http://localhost');
+  return {
+    key: pathname.replace('/api/storage/', '').split('/').map(decodeURIComponent).join('/'),
+    expires: Number(searchParams.get('expires')),
+    signature: searchParams.get('signature') || ''
+  };
+};
+
+check('storage: signed URLs verify for their own key until they expire', () => {
+  const { key, expires, signature } = parseSignedUrl(createSignedUrl('voice/input/session 1.webm', 60));
+  assert.strictEqual(key, 'voice/input/session 1.webm');
+  assert.ok(verifySignedUrl(key, expires, signature));
+  assert.ok(!verifySignedUrl('voice/input/session 2.webm', expires, signature), 'other key');
+  assert.ok(!verifySignedUrl(key, expires + 60, signature), 'extended expiry');
+  assert.ok(!verifySignedUrl(key, expires, signature.slice(0, -1)), 'truncated signature');
+});
+
+check('storage: expired signed URLs are rejected', () => {
+  const { key, expires, signature } = parseSignedUrl(createSignedUrl('voice/responses/a.mp3', -1));
+  assert.ok(!verifySignedUrl(key, expires, signature));
+});
+
+// Intent classification
+
+check('intents: a model reply is parsed and missing department and priority are derived', () => {
+  const parsed = parseIntentClassification('{"intent":"room_service","confidence":0.82,"entities":["club sandwich"]}');
+  assert.deepStrictEqual(parsed, {
+    intent: 'room_service',
+    confidence: 0.82,
+    entities: ['club sandwich'],
+    department: Department.room_service,
+    priority: TicketPriority.medium,
+    source: 'model'
+  });
+
+  const routed = parseIntentClassification('{"intent":"complaint","confidence":0.7,"department":"maintenance","priority":"high"}');
+  assert.strictEqual(routed.department, Department.maintenance);
+  assert.strictEqual(routed.priority, TicketPriority.high);
+  assert.deepStrictEqual(routed.entities, []);
+});
+
+check('intents: malformed replies, unknown intents and out-of-range confidence are rejected', () => {
+  for (const reply of [
+    'Sure! The guest wants towels.',
+    '{"intent":"spa","confidence":0.9}',
+    '{"intent":"housekeeping","confidence":1.4}',
+    '{"intent":"housekeeping","confidence":0.9,"department":"kitchen"}'
+  ]) {
+    assert.throws(() => parseIntentClassification(reply), reply);
+  }
+});
+
+// A model that answers with each reply in turn
+const scriptedModel = (replies: string[]): ModelProvider => ({
+  name: 'scripted',
+  models: { chat: 'scripted', embedding: 'scripted', transcription: 'scripted' },
+  chat: async () => replies.shift() ?? 'not json',
+  embed: () => Promise.reject(new Error('not scripted')),
+  transcribe: () => Promise.reject(new Error('not scripted'))
+});
+
+const classifyWith = async (replies: string[]) => {
+  setModelProvider(scriptedModel(replies));
+  try {
+    return await completeStructured({
+      label: 'intent classification',
+      systemPrompt: 'Classify',
+      input: 'Two more towels please',
+      parse: parseIntentClassification
+    });
+  } finally {
+    setModelProvider(null);
+  }
+};
+
+check('intents: a malformed reply is retried and a persistent one is an AI failure', async () => {
+  const retried = await classifyWith(['{"intent":', '{"intent":"housekeeping","confidence":0.9}']);
+  assert.strictEqual(retried.intent, 'housekeeping');
+
+  await assert.rejects(classifyWith([]), (error: unknown) => error instanceof AIServiceError && isAIFailure(error));
+});
+
+check('intents: the keyword rules classify common requests', () => {
+  const cases: [string, string, Department][] = [
+    ['Could I get two more towels please?', 'housekeeping', Department.housekeeping],
+    ['The air conditioning is broken', 'maintenance', Department.maintenance],
+    ['Can you book us a taxi to the airport?', 'concierge', Department.concierge]
+  ];
+  for (const [text, intent, department] of cases) {
+    const classification = RuleBasedClassifier.classify(text);
+    assert.strictEqual(classification.intent, intent, text);
+    assert.strictEqual(classification.department, department, text);
+    assert.strictEqual(classification.source, 'rules');
+  }
+  assert.strictEqual(RuleBasedClassifier.classify('Hmm', 'AI unavailable').fallback_reason, 'AI unavailable');
+});
+
+// Duplicate requests (local hashed embeddings)
+
+const openTicket = (id: string, title: string, description: string, request: string): DuplicateCandidate => ({
+  id,
+  title,
+  description,
+  guest_notes: `Voice request: ${request}`,
+  department: Department.housekeeping,
+  status: TicketStatus.pending,
+  created_at: new Date()
+});
+
+const openTickets = [
+  openTicket('towels', 'Extra towels', 'Guest asked for two extra bath towels', 'Can I get two more towels please'),
+  openTicket('ac', 'Broken air conditioning', 'The AC in the room is not cooling', 'The air conditioning is not working')
+];
+
+check('duplicates: a reworded request matches the open ticket it repeats', async () => {
+  assert.strictEqual((await closestTicket('could I please get two more towels', openTickets))?.ticket.id, 'towels');
+  assert.strictEqual((await closestTicket('The air conditioning is still not working', openTickets))?.ticket.id, 'ac');
+});
+
+check('duplicates: an unrelated request matches nothing', async () => {
+  assert.strictEqual(await closestTicket('Please book a taxi to the airport', openTickets), null);
+  assert.strictEqual(await closestTicket('Can I get two more towels please', []), null);
+});
+
+check('duplicates: the match reports the ticket without its texts', async () => {
+  const match = await closestTicket('Can I get two more towels please', openTickets);
+  assert.ok(match && match.similarity > 0.99);
+  assert.deepStrictEqual(Object.keys(match.ticket).sort(), ['created_at', 'department', 'id', 'status', 'title']);
+});
+
+// Circuit breaker and degraded mode
+
+const fails = () => Promise.reject(new Error('upstream down'));
+
+check('circuit: opens after consecutive failures and stays open until the reset', async () => {
+  const circuit = new CircuitBreaker('check', { failureThreshold: 2, resetMs: 60 * 1000 });
+
+  await assert.rejects(circuit.execute(fails), /upstream down/);
+  assert.strictEqual(circuit.getStatus().state, 'closed');
+  await assert.rejects(circuit.execute(fails), /upstream down/);
+  assert.strictEqual(circuit.getStatus().state, 'open');
+  await assert.rejects(circuit.execute(async () => 'skipped'), CircuitOpenError);
+});
+
+// With a zero reset the next call after opening is the trial
+check('circuit: lets one trial through after the reset and closes when it succeeds', async () => {
+  const circuit = new CircuitBreaker('check', { failureThreshold: 1, resetMs: 0 });
+  await assert.rejects(circuit.execute(fails));
+
+  let finishTrial!: (value: string) => void;
+  const trial = circuit.execute(() => new Promise<string>(resolve => { finishTrial = resolve; }));
+  assert.strictEqual(circuit.getStatus().state, 'half_open');
+  await assert.rejects(circuit.execute(async () => 'second'), CircuitOpenError, 'only one trial at a time');
+
+  finishTrial('ok');
+  assert.strictEqual(await trial, 'ok');
+  assert.deepStrictEqual([circuit.getStatus().state, circuit.getStatus().failures], ['closed', 0]);
+});
+
+check('circuit: a failed trial reopens it and errors that are not outages do not count', async () => {
+  const circuit = new CircuitBreaker('check', { failureThreshold: 1, resetMs: 0 });
+
+  await assert.rejects(circuit.execute(() => Promise.reject(new Error('bad request')), () => false));
+  assert.strictEqual(circuit.getStatus().state, 'closed');
+
+  await assert.rejects(circuit.execute(fails));
+  await assert.rejects(circuit.execute(fails), /upstream down/, 'the trial runs');
+  assert.strictEqual(circuit.getStatus().state, 'open');
+});
+
+check('circuit: a call started before the circuit opened does not free the trial slot', async () => {
+  const circuit = new CircuitBreaker('check', { failureThreshold: 1, resetMs: 0 });
+
+  let failOld!: (error: Error) => void;
+  const old = circuit.execute(() => new Promise<string>((_, reject) => { failOld = reject; }));
+  await assert.rejects(circuit.execute(fails));
+
+  circuit.execute(() => new Promise<string>(() => undefined));
+  failOld(new Error('late failure'));
+  await assert.rejects(old, /late failure/);
+  await assert.rejects(circuit.execute(async () => 'second'), CircuitOpenError);
+});
+
+// A model backend that is down
+const unavailableModel: ModelProvider = {
+  name: 'down',
+  models: { chat: 'down', embedding: 'down', transcription: 'down' },
+  chat: fails,
+  embed: fails,
+  transcribe: fails
+};
+
+check('degraded: provider outages surface as AI failures', async () => {
+  const provider = new ResilientModelProvider(unavailableModel);
+  await assert.rejects(provider.chat({ messages: [] }), (error: unknown) =>
+    error instanceof AIUnavailableError && isAIFailure(error));
+});
+
+check('degraded: ticket generation falls back to the keyword rules', async () => {
+  setModelProvider(unavailableModel);
+  try {
+    const ticket = await TicketGenerator.generate('The shower in my room is leaking', {
+      intent: 'maintenance',
+      confidence: 0.9,
+      entities: ['shower'],
+      department: 'maintenance',
+      priority: 'high',
+      source: 'model'
+    });
+    assert.strictEqual(ticket.department, Department.maintenance);
+    assert.strictEqual(ticket.description, 'The shower in my room is leaking');
+  } finally {
+    setModelProvider(null);
+  }
+});
+
+// Emergency detection
+
+check('emergency: reports describing an emergency are detected by type', () => {
+  const cases: [string, string][] = [
+    ['I can see flames outside the window', 'fire'],
+    ['My wife collapsed in the bathroom', 'medical'],
+    ['I need a doctor right now, my son hit his head', 'medical'],
+    ['A man attacked me in the hallway', 'safety'],
+    ['I was attacked in the parking garage', 'safety'],
+    ['There is a fire spreading from the fire pit', 'fire']
+  ];
+  for (const [text, type] of cases) {
+    assert.strictEqual(detectEmergency(text)?.type, type, text);
+  }
+});
+
+check('emergency: everyday requests that share its words are not emergencies', () => {
+  for (const text of [
+    'The bed collapsed when I sat on it, can someone fix it?',
+    'I need a doctor recommendation for tomorrow',
+    'We were attacked by mosquitoes last night, do you have a repellent?',
+    'Could we have some candle flames on the table for dinner?',
+    'Can we use the fire pit on the terrace tonight?',
+    'Where is the emergency exit?'
+  ]) {
+    assert.strictEqual(detectEmergency(text), null, text);
+  }
+});
+
+// Prompt A/B selection
+
+const promptVersion = (id: string, hotelId: string | null, version: number, weight: number) => ({
+  id,
+  key: 'INTENT_CLASSIFIER',
+  hotel_id: hotelId,
+  version,
+  content: `Classifier prompt ${id}`,
+  description: null,
+  traffic_weight: weight,
+  created_by: null,
+  created_at: new Date(),
+  updated_at: new Date()
+}) as PromptVersion;
+
+// Fixed rolls in place of Math.random
+const rolls = (value: number) => () => value;
+
+check('prompts: traffic is split in proportion to the versions\' weights', () => {
+  const versions = [promptVersion('a', null, 1, 75), promptVersion('b', null, 2, 25)];
+  assert.strictEqual(choosePrompts(versions, rolls(0)).INTENT_CLASSIFIER.id, 'a');
+  assert.strictEqual(choosePrompts(versions, rolls(0.74)).INTENT_CLASSIFIER.id, 'a');
+  assert.strictEqual(choosePrompts(versions, rolls(0.76)).INTENT_CLASSIFIER.id, 'b');
+  assert.strictEqual(choosePrompts(versions, rolls(0.9999)).INTENT_CLASSIFIER.id, 'b');
+});
+
+check('prompts: a hotel\'s own versions take precedence over global ones', () => {
+  const versions = [promptVersion('global', null, 1, 100), promptVersion('hotel', 'hotel-1', 1, 1)];
+  for (const roll of [0, 0.5, 0.99]) {
+    assert.strictEqual(choosePrompts(versions, rolls(roll)).INTENT_CLASSIFIER.id, 'hotel');
+  }
+});
+
+check('prompts: keys without versions use the built-in prompt and are recorded as such', () => {
+  const selection = choosePrompts([promptVersion('a', null, 3, 10)], rolls(0.5));
+  assert.deepStrictEqual(recordPromptVersions(selection), {
+    HOSPITALITY_ASSISTANT: { id: null, version: null },
+    INTENT_CLASSIFIER: { id: 'a', version: 3 },
+    TICKET_GENERATOR: { id: null, version: null }
+  });
+  assert.ok(selection.HOSPITALITY_ASSISTANT.content.length > 0);
+});
+
+const main = async (): Promise<number> => {
+  const filter = process.argv[2];
+  const selected = filter ? checks.filter(({ name }) => name.includes(filter)) : checks;
+  let failed = 0;
+
+  for (const { name, run } of selected) {
+    try {
+      await run();
+      console.log(`  ok    ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`  FAIL  ${name}`);
+      console.log(`        ${error instanceof Error ? error.message.split('\n').join('\n        ') : error}`);
+    }
+  }
+
+  console.log(`\n${selected.length - failed}/${selected.length} checks passed`);
+  return failed === 0 ? 0 : 1;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch((error) => {
+    console.error('Checks failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,217 @@
+import './offlineEnv';
+import fs from 'fs';
+import path from 'path';
+import { voiceConfig } from '../config/env';
+import { IntentClassification } from '../types';
+import { IntentClassifier } from '../services/intentClassifier';
+import { TicketGenerator } from '../services/ticketGenerator';
+import { getTranscriptionProvider, AudioFormat } from '../services/transcription';
+import { detectEmergency, emergencyClassification, emergencyTicketFields } from '../services/emergency';
+
+// Offline evaluation of intent classification and ticket routing.
+//
+//   npm run eval -- [--fixtures <file>] [--min-accuracy 0.8] [--json]
+//
+// Replays labelled transcripts (or audio clips) through the same services the
+// voice pipeline uses and reports accuracy per intent and per department. The
+// classifier follows CLASSIFIER_PROVIDER, so CI can run it with the rule-based
+// classifier and no API keys (see npm run eval:ci).
+
+interface EvaluationFixture {
+  id: string;
+  transcript?: string;
+  // Audio clip relative to the fixture file, transcribed with the configured provider
+  audio?: string;
+  format?: AudioFormat;
+  expected: {
+    intent: string;
+    department: string;
+    priority?: string;
+  };
+}
+
+interface EvaluationResult {
+  id: string;
+  transcript: string;
+  expected: EvaluationFixture['expected'];
+  actual: { intent: string; department: string; priority: string; confidence: number; source?: string };
+  intentCorrect: boolean;
+  departmentCorrect: boolean;
+  priorityCorrect: boolean | null;
+}
+
+interface Tally {
+  total: number;
+  correct: number;
+}
+
+// Intents that become tickets in the voice pipeline
+const TICKET_INTENTS = ['housekeeping', 'room_service', 'concierge', 'maintenance', 'complaint'];
+
+const DEFAULT_FIXTURES = path.join(__dirname, 'fixtures', 'voice-requests.json');
+
+const parseArgs = (argv: string[]) => {
+  const value = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  return {
+    fixtures: path.resolve(value('--fixtures') || DEFAULT_FIXTURES),
+    minAccuracy: value('--min-accuracy') ? Number(value('--min-accuracy')) : null,
+    json: argv.includes('--json')
+  };
+};
+
+const loadFixtures = (file: string): EvaluationFixture[] => {
+  const fixtures = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(fixtures)) {
+    throw new Error(`${file} must contain an array of fixtures`);
+  }
+
+  for (const fixture of fixtures) {
+    if (!fixture.id || !fixture.expected?.intent || !fixture.expected?.department) {
+      throw new Error(`Fixture ${fixture.id || '(unnamed)'} needs an id, expected.intent and expected.department`);
+    }
+    if (!fixture.transcript && !fixture.audio) {
+      throw new Error(`Fixture ${fixture.id} needs a transcript or an audio clip`);
+    }
+  }
+  return fixtures;
+};
+
+const transcribe = async (fixture: EvaluationFixture, fixturesFile: string): Promise<string> => {
+  if (!fixture.audio) {
+    return fixture.transcript!;
+  }
+
+  const clip = path.resolve(path.dirname(fixturesFile), fixture.audio);
+  const format = fixture.format || (path.extname(clip).slice(1) as AudioFormat);
+  const result = await getTranscriptionProvider().transcribe(fs.readFileSync(clip), { format });
+  return result.text;
+};
+
+// Route a request the way VoicePipeline does, without storing anything
+const evaluateFixture = async (fixture: EvaluationFixture, fixturesFile: string): Promise<EvaluationResult> => {
+  const transcript = await transcribe(fixture, fixturesFile);
+
+  const emergency = detectEmergency(transcript);
+  const classification: IntentClassification = emergency
+    ? emergencyClassification(emergency)
+    : await IntentClassifier.classify(transcript);
+
+  let department = classification.department;
+  let priority = classification.priority;
+
+  if (emergency) {
+    ({ department, priority } = emergencyTicketFields(emergency, transcript));
+  } else if (TICKET_INTENTS.includes(classification.intent)) {
+    ({ department, priority } = await TicketGenerator.generate(transcript, classification));
+  }
+
+  const { expected } = fixture;
+
+  return {
+    id: fixture.id,
+    transcript,
+    expected,
+    actual: {
+      intent: classification.intent,
+      department,
+      priority,
+      confidence: classification.confidence,
+      source: classification.source
+    },
+    intentCorrect: classification.intent === expected.intent,
+    departmentCorrect: department === expected.department,
+    priorityCorrect: expected.priority ? priority === expected.priority : null
+  };
+};
+
+const tallyBy = (results: EvaluationResult[], key: (result: EvaluationResult) => string, correct: (result: EvaluationResult) => boolean) => {
+  const tallies: Record<string, Tally> = {};
+  for (const result of results) {
+    const tally = tallies[key(result)] ||= { total: 0, correct: 0 };
+    tally.total++;
+    if (correct(result)) tally.correct++;
+  }
+  return tallies;
+};
+
+const accuracy = ({ total, correct }: Tally) => total ? correct / total : 0;
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const printTable = (title: string, tallies: Record<string, Tally>) => {
+  console.log(`\n${title}`);
+  for (const [name, tally] of Object.entries(tallies).sort(([a], [b]) => a.localeCompare(b))) {
+    console.log(`  ${name.padEnd(16)} ${`${tally.correct}/${tally.total}`.padStart(7)}  ${percent(accuracy(tally)).padStart(6)}`);
+  }
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const fixtures = loadFixtures(options.fixtures);
+
+  const results: EvaluationResult[] = [];
+  for (const fixture of fixtures) {
+    results.push(await evaluateFixture(fixture, options.fixtures));
+  }
+
+  const overall = {
+    intent: { total: results.length, correct: results.filter(result => result.intentCorrect).length },
+    department: { total: results.length, correct: results.filter(result => result.departmentCorrect).length }
+  };
+  const withPriority = results.filter(result => result.priorityCorrect !== null);
+  const priority = { total: withPriority.length, correct: withPriority.filter(result => result.priorityCorrect).length };
+
+  const report = {
+    classifier: voiceConfig.classifierProvider,
+    fixtures: options.fixtures,
+    overall: {
+      intent_accuracy: accuracy(overall.intent),
+      department_accuracy: accuracy(overall.department),
+      priority_accuracy: priority.total ? accuracy(priority) : null
+    },
+    by_intent: tallyBy(results, result => result.expected.intent, result => result.intentCorrect),
+    by_department: tallyBy(results, result => result.expected.department, result => result.departmentCorrect),
+    failures: results.filter(result => !result.intentCorrect || !result.departmentCorrect || result.priorityCorrect === false)
+  };
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`Voice pipeline evaluation (${results.length} fixtures, classifier: ${report.classifier})`);
+    console.log(`  Intent accuracy:     ${percent(report.overall.intent_accuracy)}`);
+    console.log(`  Department accuracy: ${percent(report.overall.department_accuracy)}`);
+    if (report.overall.priority_accuracy !== null) {
+      console.log(`  Priority accuracy:   ${percent(report.overall.priority_accuracy)}`);
+    }
+    printTable('By intent', report.by_intent);
+    printTable('By department', report.by_department);
+
+    if (report.failures.length > 0) {
+      console.log('\nMismatches');
+      for (const failure of report.failures) {
+        console.log(`  ${failure.id}: expected ${failure.expected.intent}/${failure.expected.department}` +
+          `${failure.expected.priority ? `/${failure.expected.priority}` : ''}, got ` +
+          `${failure.actual.intent}/${failure.actual.department}/${failure.actual.priority} ` +
+          `(confidence ${failure.actual.confidence})`);
+      }
+    }
+  }
+
+  const lowest = Math.min(report.overall.intent_accuracy, report.overall.department_accuracy);
+  if (options.minAccuracy !== null && lowest < options.minAccuracy) {
+    console.error(`\nAccuracy ${percent(lowest)} is below the required ${percent(options.minAccuracy)}`);
+    return 1;
+  }
+  return 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch((error) => {
+    console.error('Evaluation failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
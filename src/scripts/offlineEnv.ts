@@ -0,0 +1,7 @@
+// Offline scripts never connect to the database, but config validation requires
+// a URL. Import this before anything that loads config/env.
+process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgresql://offline@localhost:5432/offline';
+// Without a model backend, tests run on the deterministic local providers
+process.env.NODE_ENV = process.env.NODE_ENV || 'test';
+// Lets offline checks sign storage URLs without a JWT_SECRET
+process.env.STORAGE_SIGNING_SECRET = process.env.STORAGE_SIGNING_SECRET || 'offline-signing-secret';
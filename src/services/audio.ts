@@ -0,0 +1,516 @@
+import { spawn } from 'child_process';
+import { audioConfig } from '../config/env';
+import logger from '../config/logger';
+import {
+  PayloadTooLargeError,
+  UnprocessableEntityError,
+  UnsupportedMediaTypeError
+} from '../middleware/errorHandler';
+import { AudioFormat, SUPPORTED_AUDIO_FORMATS } from './transcription';
+
+export interface AudioInfo {
+  format: AudioFormat;
+  // null when the container neither states nor implies it
+  durationSeconds: number | null;
+  sampleRate: number | null;
+  channels: number | null;
+}
+
+export interface NormalizedAudio {
+  audio: Buffer;
+  format: AudioFormat;
+}
+
+const FFMPEG_TIMEOUT_MS = 30 * 1000;
+
+const uploadLimitMb = () => Math.round((audioConfig.maxUploadBytes / (1024 * 1024)) * 10) / 10;
+
+export const audioTooLargeError = () => new PayloadTooLargeError(`Audio exceeds the ${uploadLimitMb()} MB upload limit`);
+
+// Identify the container from its first bytes; declared formats are not trusted
+export const detectAudioFormat = (audio: Buffer): AudioFormat | null => {
+  if (audio.length >= 12 && audio.toString('ascii', 0, 4) === 'RIFF' && audio.toString('ascii', 8, 12) === 'WAVE') {
+    return 'wav';
+  }
+  if (audio.length >= 4 && audio.readUInt32BE(0) === 0x1a45dfa3) {
+    return 'webm';
+  }
+  if (audio.length >= 3 && audio.toString('ascii', 0, 3) === 'ID3') {
+    return 'mp3';
+  }
+  if (audio.length >= 2 && audio[0] === 0xff && (audio[1] & 0xe0) === 0xe0) {
+    return 'mp3';
+  }
+  return null;
+};
+
+// WAV
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+interface WavLayout {
+  encoding: number;
+  channels: number;
+  sampleRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataSize: number;
+}
+
+const readWavLayout = (audio: Buffer): WavLayout => {
+  let format: Omit<WavLayout, 'dataOffset' | 'dataSize'> | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= audio.length) {
+    const id = audio.toString('ascii', offset, offset + 4);
+    const size = audio.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ' && size >= 16 && body + 16 <= audio.length) {
+      let encoding = audio.readUInt16LE(body);
+      if (encoding === WAVE_FORMAT_EXTENSIBLE && size >= 40 && body + 26 <= audio.length) {
+        encoding = audio.readUInt16LE(body + 24);
+      }
+      format = {
+        encoding,
+        channels: audio.readUInt16LE(body + 2),
+        sampleRate: audio.readUInt32LE(body + 4),
+        blockAlign: audio.readUInt16LE(body + 12),
+        bitsPerSample: audio.readUInt16LE(body + 14)
+      };
+    } else if (id === 'data' && format) {
+      // Streaming writers leave the size unset, so the data runs to the end of the file
+      const available = Math.min(size, audio.length - body);
+      return {
+        ...format,
+        dataOffset: body,
+        dataSize: format.blockAlign > 0 ? available - (available % format.blockAlign) : available
+      };
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  throw new UnprocessableEntityError('Corrupt WAV audio: missing format or data chunk');
+};
+
+const probeWav = (audio: Buffer): AudioInfo => {
+  const layout = readWavLayout(audio);
+  const { encoding, channels, sampleRate, blockAlign, bitsPerSample } = layout;
+
+  const supportedEncoding = (encoding === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample))
+    || (encoding === WAVE_FORMAT_FLOAT && bitsPerSample === 32);
+  if (!supportedEncoding) {
+    throw new UnsupportedMediaTypeError('Unsupported WAV encoding; send 8, 16, 24 or 32-bit PCM or 32-bit float');
+  }
+  if (channels === 0 || sampleRate === 0 || blockAlign !== channels * (bitsPerSample / 8)) {
+    throw new UnprocessableEntityError('Corrupt WAV audio: inconsistent format chunk');
+  }
+
+  return {
+    format: 'wav',
+    durationSeconds: layout.dataSize / (sampleRate * blockAlign),
+    sampleRate,
+    channels
+  };
+};
+
+// MP3 (MPEG audio layer III)
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000] // MPEG 2.5
+};
+const MP3_BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+interface Mp3Frame {
+  offset: number;
+  mpeg1: boolean;
+  sampleRate: number;
+  bitrate: number;
+  channels: number;
+  samplesPerFrame: number;
+  length: number;
+}
+
+const readMp3Frame = (audio: Buffer, offset: number): Mp3Frame | null => {
+  if (offset + 4 > audio.length || audio[offset] !== 0xff || (audio[offset + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const version = (audio[offset + 1] >> 3) & 3;
+  const layer = (audio[offset + 1] >> 1) & 3;
+  const bitrateIndex = audio[offset + 2] >> 4;
+  const sampleRateIndex = (audio[offset + 2] >> 2) & 3;
+
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const mpeg1 = version === 3;
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+  const bitrate = (mpeg1 ? MP3_BITRATES_V1 : MP3_BITRATES_V2)[bitrateIndex] * 1000;
+  const samplesPerFrame = mpeg1 ? 1152 : 576;
+  const padding = (audio[offset + 2] >> 1) & 1;
+
+  return {
+    offset,
+    mpeg1,
+    sampleRate,
+    bitrate,
+    channels: audio[offset + 3] >> 6 === 3 ? 1 : 2,
+    samplesPerFrame,
+    length: Math.floor((samplesPerFrame / 8) * bitrate / sampleRate) + padding
+  };
+};
+
+const probeMp3 = (audio: Buffer): AudioInfo => {
+  let start = 0;
+  if (audio.toString('ascii', 0, 3) === 'ID3' && audio.length >= 10) {
+    const tagSize = ((audio[6] & 0x7f) << 21) | ((audio[7] & 0x7f) << 14) | ((audio[8] & 0x7f) << 7) | (audio[9] & 0x7f);
+    start = 10 + tagSize + (audio[5] & 0x10 ? 10 : 0);
+  }
+
+  // A frame header only counts when the next frame follows where it says
+  let first: Mp3Frame | null = null;
+  const searchEnd = Math.min(audio.length, start + 64 * 1024);
+  for (let offset = start; offset < searchEnd && !first; offset++) {
+    const frame = readMp3Frame(audio, offset);
+    if (frame && (offset + frame.length >= audio.length || readMp3Frame(audio, offset + frame.length))) {
+      first = frame;
+    }
+  }
+
+  if (!first) {
+    throw new UnprocessableEntityError('Corrupt MP3 audio: no MPEG audio frames found');
+  }
+
+  // VBR files carry their frame count in a Xing/Info or VBRI header
+  let frames: number | null = null;
+  const sideInfo = first.mpeg1 ? (first.channels === 1 ? 17 : 32) : (first.channels === 1 ? 9 : 17);
+  const xing = first.offset + 4 + sideInfo;
+  const vbri = first.offset + 36;
+  if (xing + 12 <= audio.length && ['Xing', 'Info'].includes(audio.toString('ascii', xing, xing + 4))) {
+    if (audio.readUInt32BE(xing + 4) & 1) frames = audio.readUInt32BE(xing + 8);
+  } else if (vbri + 18 <= audio.length && audio.toString('ascii', vbri, vbri + 4) === 'VBRI') {
+    frames = audio.readUInt32BE(vbri + 14);
+  }
+
+  return {
+    format: 'mp3',
+    durationSeconds: frames !== null
+      ? (frames * first.samplesPerFrame) / first.sampleRate
+      : ((audio.length - first.offset) * 8) / first.bitrate,
+    sampleRate: first.sampleRate,
+    channels: first.channels
+  };
+};
+
+// WebM (Matroska/EBML)
+
+const EBML = {
+  HEADER: 0x1a45dfa3,
+  DOC_TYPE: 0x4282,
+  SEGMENT: 0x18538067,
+  INFO: 0x1549a966,
+  TIMECODE_SCALE: 0x2ad7b1,
+  DURATION: 0x4489,
+  TRACKS: 0x1654ae6b,
+  TRACK_ENTRY: 0xae,
+  AUDIO: 0xe1,
+  SAMPLING_FREQUENCY: 0xb5,
+  CHANNELS: 0x9f,
+  CLUSTER: 0x1f43b675,
+  CLUSTER_TIMECODE: 0xe7,
+  BLOCK_GROUP: 0xa0,
+  BLOCK: 0xa1,
+  SIMPLE_BLOCK: 0xa3
+};
+
+// Containers are walked into rather than skipped, which also copes with the
+// unknown sizes browsers write while recording
+const EBML_MASTERS = new Set([
+  EBML.HEADER, EBML.SEGMENT, EBML.INFO, EBML.TRACKS, EBML.TRACK_ENTRY, EBML.AUDIO, EBML.CLUSTER, EBML.BLOCK_GROUP
+]);
+
+// EBML variable-length integer; the number of leading zero bits gives its length.
+// IDs keep their length marker, sizes drop it.
+const readVint = (audio: Buffer, offset: number, keepMarker: boolean) => {
+  const first = audio[offset];
+  if (first === undefined || first === 0) return null;
+
+  const length = Math.clz32(first) - 23;
+  if (offset + length > audio.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + audio[offset + i];
+    allOnes = allOnes && audio[offset + i] === 0xff;
+  }
+
+  return { value, length, unknownSize: !keepMarker && allOnes };
+};
+
+const readEbmlUInt = (audio: Buffer, offset: number, size: number) => {
+  let value = 0;
+  for (let i = 0; i < size; i++) value = value * 256 + audio[offset + i];
+  return value;
+};
+
+const readEbmlFloat = (audio: Buffer, offset: number, size: number) =>
+  size === 4 ? audio.readFloatBE(offset) : size === 8 ? audio.readDoubleBE(offset) : null;
+
+const probeWebm = (audio: Buffer): AudioInfo => {
+  let docType: string | null = null;
+  let timecodeScale = 1000000;
+  let duration: number | null = null;
+  let sampleRate: number | null = null;
+  let channels: number | null = null;
+  let clusterTimecode = 0;
+  let lastTimecode: number | null = null;
+
+  let offset = 0;
+  while (offset < audio.length) {
+    const id = readVint(audio, offset, true);
+    const size = id && readVint(audio, offset + id.length, false);
+    if (!id || !size) break;
+
+    const body = offset + id.length + size.length;
+    if (EBML_MASTERS.has(id.value)) {
+      offset = body;
+      continue;
+    }
+    // Recordings cut off mid-block are still usable up to that point
+    if (size.unknownSize || body + size.value > audio.length) break;
+
+    switch (id.value) {
+      case EBML.DOC_TYPE:
+        docType = audio.toString('ascii', body, body + size.value).replace(/\0+$/, '');
+        break;
+      case EBML.TIMECODE_SCALE:
+        timecodeScale = readEbmlUInt(audio, body, size.value);
+        break;
+      case EBML.DURATION:
+        duration = readEbmlFloat(audio, body, size.value);
+        break;
+      case EBML.SAMPLING_FREQUENCY:
+        sampleRate = readEbmlFloat(audio, body, size.value);
+        break;
+      case EBML.CHANNELS:
+        channels = readEbmlUInt(audio, body, size.value);
+        break;
+      case EBML.CLUSTER_TIMECODE:
+        clusterTimecode = readEbmlUInt(audio, body, size.value);
+        break;
+      case EBML.SIMPLE_BLOCK:
+      case EBML.BLOCK: {
+        const track = readVint(audio, body, false);
+        if (track && body + track.length + 2 <= audio.length) {
+          const timecode = clusterTimecode + audio.readInt16BE(body + track.length);
+          lastTimecode = Math.max(lastTimecode ?? 0, timecode);
+        }
+        break;
+      }
+    }
+
+    offset = body + size.value;
+  }
+
+  if (docType !== 'webm' && docType !== 'matroska') {
+    throw new UnprocessableEntityError('Corrupt WebM audio: missing EBML header');
+  }
+  if (sampleRate === null) {
+    throw new UnprocessableEntityError('WebM file has no audio track');
+  }
+
+  // Browser recordings have no Duration element; the last block's timecode is close enough
+  const ticks = duration ?? lastTimecode ?? 0;
+
+  return {
+    format: 'webm',
+    durationSeconds: (ticks * timecodeScale) / 1e9,
+    sampleRate: Math.round(sampleRate),
+    channels
+  };
+};
+
+const PROBES: Record<AudioFormat, (audio: Buffer) => AudioInfo> = {
+  wav: probeWav,
+  mp3: probeMp3,
+  webm: probeWebm
+};
+
+// Check an uploaded recording: a supported container that parses, with sound in
+// it, and within the size, duration and sample-rate limits. The detected format
+// wins over the one the client declared.
+export const inspectAudio = (audio: Buffer, declaredFormat?: string): AudioInfo => {
+  if (audio.length > audioConfig.maxUploadBytes) {
+    throw audioTooLargeError();
+  }
+
+  const format = detectAudioFormat(audio);
+  if (!format) {
+    throw new UnsupportedMediaTypeError(
+      `Unrecognized audio data. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`
+    );
+  }
+  if (declaredFormat && declaredFormat !== format) {
+    logger.debug('Uploaded audio format differs from the declared one', { declaredFormat, format });
+  }
+
+  const info = PROBES[format](audio);
+  const { maxDurationSeconds, minSampleRate, maxSampleRate } = audioConfig;
+
+  if (info.durationSeconds !== null && info.durationSeconds <= 0) {
+    throw new UnprocessableEntityError('Audio contains no sound');
+  }
+  if (info.durationSeconds !== null && info.durationSeconds > maxDurationSeconds) {
+    throw new PayloadTooLargeError(
+      `Audio is ${Math.round(info.durationSeconds)} seconds long; the limit is ${maxDurationSeconds} seconds`
+    );
+  }
+  if (info.sampleRate !== null && (info.sampleRate < minSampleRate || info.sampleRate > maxSampleRate)) {
+    throw new UnprocessableEntityError(
+      `Sample rate of ${info.sampleRate} Hz is outside the supported range of ${minSampleRate}-${maxSampleRate} Hz`
+    );
+  }
+
+  return info;
+};
+
+// Header of a mono 16-bit PCM WAV file
+export const wavHeader = (dataSize: number, sampleRate: number): Buffer => {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(WAVE_FORMAT_PCM, 20);
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(dataSize, 40);
+  return header;
+};
+
+const readSample = (audio: Buffer, offset: number, layout: WavLayout): number => {
+  if (layout.encoding === WAVE_FORMAT_FLOAT) return audio.readFloatLE(offset);
+
+  switch (layout.bitsPerSample) {
+    case 8: return (audio[offset] - 128) / 128;
+    case 16: return audio.readInt16LE(offset) / 32768;
+    case 24: return audio.readIntLE(offset, 3) / 8388608;
+    default: return audio.readInt32LE(offset) / 2147483648;
+  }
+};
+
+// Downmix and resample PCM or float WAV to mono 16-bit at the normalized rate
+const convertWav = (audio: Buffer): Buffer => {
+  const layout = readWavLayout(audio);
+  const targetRate = audioConfig.normalizedSampleRate;
+
+  if (layout.encoding === WAVE_FORMAT_PCM && layout.channels === 1
+    && layout.bitsPerSample === 16 && layout.sampleRate === targetRate) {
+    return audio;
+  }
+
+  const bytesPerSample = layout.bitsPerSample / 8;
+  const frames = Math.floor(layout.dataSize / layout.blockAlign);
+  const mono = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    const frameOffset = layout.dataOffset + frame * layout.blockAlign;
+    let sum = 0;
+    for (let channel = 0; channel < layout.channels; channel++) {
+      sum += readSample(audio, frameOffset + channel * bytesPerSample, layout);
+    }
+    mono[frame] = sum / layout.channels;
+  }
+
+  // Averaging when downsampling keeps aliasing down; upsampling interpolates
+  const ratio = layout.sampleRate / targetRate;
+  const outputFrames = Math.floor(frames / ratio);
+  const data = Buffer.alloc(outputFrames * 2);
+  for (let i = 0; i < outputFrames; i++) {
+    let value: number;
+    if (ratio > 1) {
+      const from = Math.floor(i * ratio);
+      const to = Math.min(frames, Math.max(from + 1, Math.floor((i + 1) * ratio)));
+      value = 0;
+      for (let j = from; j < to; j++) value += mono[j];
+      value /= to - from;
+    } else {
+      const position = i * ratio;
+      const j = Math.floor(position);
+      const fraction = position - j;
+      value = mono[j] * (1 - fraction) + mono[Math.min(j + 1, frames - 1)] * fraction;
+    }
+    data.writeInt16LE(Math.round(Math.max(-1, Math.min(1, value)) * 32767), i * 2);
+  }
+
+  return Buffer.concat([wavHeader(data.length, targetRate), data]);
+};
+
+// Returns null when ffmpeg cannot be started, so the caller can carry on without it
+const transcodeWithFfmpeg = (audio: Buffer, ffmpegPath: string): Promise<Buffer | null> =>
+  new Promise((resolve, reject) => {
+    const ffmpeg = spawn(ffmpegPath, [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', 'pipe:0',
+      '-ac', '1',
+      '-ar', String(audioConfig.normalizedSampleRate),
+      '-acodec', 'pcm_s16le',
+      '-f', 'wav', 'pipe:1'
+    ]);
+    const output: Buffer[] = [];
+    let errors = '';
+
+    const timer = setTimeout(() => ffmpeg.kill('SIGKILL'), FFMPEG_TIMEOUT_MS);
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => output.push(chunk));
+    ffmpeg.stderr.on('data', (chunk: Buffer) => { errors += chunk.toString(); });
+    // ffmpeg may stop reading early on corrupt input
+    ffmpeg.stdin.on('error', () => undefined);
+
+    ffmpeg.on('error', (error) => {
+      clearTimeout(timer);
+      logger.warn('ffmpeg could not be started, transcribing audio as uploaded', { error: error.message });
+      resolve(null);
+    });
+    ffmpeg.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(output));
+      } else {
+        logger.warn('ffmpeg failed to decode audio', { code, errors: errors.trim().slice(0, 500) });
+        reject(new UnprocessableEntityError('Audio could not be decoded'));
+      }
+    });
+
+    ffmpeg.stdin.end(audio);
+  });
+
+// Convert a recording to 16kHz mono 16-bit WAV for transcription. WAV is
+// converted in process; mp3 and webm need FFMPEG_PATH and are otherwise
+// transcribed as uploaded.
+export const normalizeForTranscription = async (audio: Buffer, info: AudioInfo): Promise<NormalizedAudio> => {
+  if (info.format === 'wav') {
+    return { audio: convertWav(audio), format: 'wav' };
+  }
+
+  if (audioConfig.ffmpegPath) {
+    const converted = await transcodeWithFfmpeg(audio, audioConfig.ffmpegPath);
+    if (converted) return { audio: converted, format: 'wav' };
+  }
+
+  return { audio, format: info.format };
+};
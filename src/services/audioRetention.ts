@@ -0,0 +1,106 @@
+import { prisma } from '../config/prisma';
+import { storageConfig } from '../config/env';
+import logger from '../config/logger';
+import { getStorageBackend } from './storage';
+import { parseConversationHistory } from './conversation';
+
+const CLEANUP_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const CLEANUP_BATCH_SIZE = 200;
+
+type SessionAudioRefs = {
+  audio_file_url: string | null;
+  response_audio_url: string | null;
+  conversation_history?: unknown;
+};
+
+// Every stored object referenced by a voice session, including earlier dialog turns
+export const collectSessionAudioKeys = (session: SessionAudioRefs): string[] => {
+  const keys = [
+    session.audio_file_url,
+    session.response_audio_url,
+    ...parseConversationHistory(session.conversation_history).map(turn => turn.audio_key)
+  ];
+  return Array.from(new Set(keys.filter((key): key is string => !!key)));
+};
+
+export interface AudioCleanupResult {
+  sessionsCleaned: number;
+  objectsDeleted: number;
+  cutoff: string;
+}
+
+// Delete stored recordings and responses for voice sessions older than the retention window.
+// The session rows are kept; only their audio references are cleared.
+export const cleanupExpiredVoiceAudio = async (
+  retentionDays: number = storageConfig.retentionDays
+): Promise<AudioCleanupResult> => {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const storage = getStorageBackend();
+  let sessionsCleaned = 0;
+  let objectsDeleted = 0;
+
+  while (true) {
+    const sessions = await prisma.voiceSession.findMany({
+      where: {
+        created_at: { lt: cutoff },
+        OR: [
+          { audio_file_url: { not: null } },
+          { response_audio_url: { not: null } }
+        ]
+      },
+      select: { id: true, audio_file_url: true, response_audio_url: true, conversation_history: true },
+      take: CLEANUP_BATCH_SIZE
+    });
+
+    if (sessions.length === 0) break;
+
+    for (const session of sessions) {
+      for (const key of collectSessionAudioKeys(session)) {
+        try {
+          await storage.delete(key);
+          objectsDeleted++;
+        } catch (error) {
+          logger.warn('Failed to delete expired voice audio', {
+            sessionId: session.id,
+            key,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+
+      await prisma.voiceSession.update({
+        where: { id: session.id },
+        data: {
+          audio_file_url: null,
+          response_audio_url: null,
+          ...(session.conversation_history ? {
+            conversation_history: parseConversationHistory(session.conversation_history)
+              .map(({ audio_key, ...turn }) => turn)
+          } : {})
+        }
+      });
+      sessionsCleaned++;
+    }
+  }
+
+  if (sessionsCleaned > 0) {
+    logger.info('Expired voice audio cleaned up', { sessionsCleaned, objectsDeleted, retentionDays });
+  }
+
+  return { sessionsCleaned, objectsDeleted, cutoff: cutoff.toISOString() };
+};
+
+export const startAudioRetentionJob = () => {
+  const run = () => {
+    cleanupExpiredVoiceAudio().catch((error) => {
+      logger.error('Voice audio retention cleanup failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  };
+
+  run();
+  const timer = setInterval(run, CLEANUP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,125 @@
+import { prisma } from '../config/prisma';
+import logger from '../config/logger';
+import { ChatResponse, User, WebSocketMessage, WebSocketMessageType } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { VoicePipeline, VoicePipelineResult } from './voicePipeline';
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+export interface ChatMessageInput {
+  message: string;
+  language?: string;
+  room_number?: string;
+  // Continue a session awaiting a clarification answer
+  session_id?: string;
+}
+
+type SendFn = (clientId: string, message: WebSocketMessage) => void;
+
+// Error message for an unusable chat message, or null when it can be processed
+export const validateChatMessage = (message: unknown): string | null => {
+  if (typeof message !== 'string' || !message.trim()) {
+    return 'message is required';
+  }
+  if (message.length > MAX_CHAT_MESSAGE_LENGTH) {
+    return `message must be at most ${MAX_CHAT_MESSAGE_LENGTH} characters`;
+  }
+  return null;
+};
+
+const OPTIONAL_CHAT_FIELDS = ['language', 'room_number', 'session_id'] as const;
+
+// Error message for an optional chat field that is present but not a string
+export const validateChatOptions = (fields: Record<string, unknown>): string | null => {
+  const invalid = OPTIONAL_CHAT_FIELDS.find(key => fields[key] !== undefined && fields[key] !== null
+    && typeof fields[key] !== 'string');
+  return invalid ? `${invalid} must be a string` : null;
+};
+
+export const toChatResponse = (message: string, result: VoicePipelineResult): ChatResponse => ({
+  message,
+  intent: result.classification.intent,
+  confidence: result.classification.confidence,
+  response_text: result.responseText,
+  ticket_created: !!result.ticket,
+  ticket_id: result.ticket?.id,
+  duplicate_of_ticket_id: result.duplicateOf?.id,
+  awaiting_clarification: result.awaitingClarification,
+  pending_review: result.pendingReview,
+  emergency: result.emergency,
+  language: result.language,
+  session_id: result.voiceSession.id
+});
+
+export class ChatService {
+  // Typed messages go through the voice pipeline, so classification, knowledge
+  // base answers, tickets, review and usage work the same as for speech
+  static async send(user: User, input: ChatMessageInput, startedAt: number = Date.now()) {
+    return VoicePipeline.process({
+      user,
+      text: input.message,
+      language: input.language,
+      roomNumber: input.room_number,
+      sessionId: input.session_id,
+      startedAt
+    });
+  }
+
+  // Handle a `chat_message` frame and answer with a CHAT_RESPONSE frame.
+  //
+  // Client protocol (after `authenticate` with a JWT `token`):
+  //   { type: 'chat_message', payload: { message, language, room_number, session_id, message_id } }
+  // `message_id` is echoed back so clients can match replies to messages.
+  static async handleWebSocketMessage(send: SendFn, clientId: string, userId: string, payload: unknown) {
+    const fields = (payload !== null && typeof payload === 'object' ? payload : {}) as Record<string, unknown>;
+    const text = (key: string) => typeof fields[key] === 'string' ? fields[key] as string : undefined;
+    const messageId = text('message_id');
+
+    const fail = (error: string) => send(clientId, {
+      type: WebSocketMessageType.CHAT_RESPONSE,
+      payload: { message_id: messageId, status: 'error', error },
+      timestamp: new Date().toISOString()
+    });
+
+    try {
+      if (fields !== payload) {
+        fail('payload must be an object');
+        return;
+      }
+
+      const invalid = validateChatMessage(fields.message) || validateChatOptions(fields);
+      if (invalid) {
+        fail(invalid);
+        return;
+      }
+
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user || !user.active) {
+        fail('User not found or inactive');
+        return;
+      }
+
+      const input: ChatMessageInput = {
+        message: fields.message as string,
+        language: text('language'),
+        room_number: text('room_number'),
+        session_id: text('session_id')
+      };
+      const result = await ChatService.send(user, input);
+
+      send(clientId, {
+        type: WebSocketMessageType.CHAT_RESPONSE,
+        payload: { message_id: messageId, status: 'completed', ...toChatResponse(input.message, result) },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Chat message processing failed', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
+      });
+      // As over HTTP, only application errors carry a message meant for the client
+      fail(error instanceof AppError ? error.message : 'Chat processing failed');
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import logger from '../config/logger';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures before the circuit opens
+  failureThreshold: number;
+  // How long the circuit stays open before letting a trial call through
+  resetMs: number;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(name: string) {
+    super(`${name} circuit is open`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Stops calling a failing dependency for a while instead of letting every
+// request wait on timeouts. After resetMs a single trial call decides whether
+// the circuit closes again.
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private readonly name: string, private readonly options: CircuitBreakerOptions) {}
+
+  // isFailure decides which errors count against the dependency (e.g. not bad requests)
+  async execute<T>(fn: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.options.resetMs) {
+        throw new CircuitOpenError(this.name);
+      }
+      this.state = 'half_open';
+    }
+
+    // Calls started before the circuit opened may still finish; only the trial
+    // owns trialInFlight
+    const isTrial = this.state === 'half_open';
+    if (isTrial) {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(this.name);
+      }
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.onFailure(error);
+      } else if (isTrial) {
+        // The dependency answered, so it is reachable
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  getStatus() {
+    return {
+      name: this.name,
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null
+    };
+  }
+
+  private onSuccess() {
+    if (this.state !== 'closed') {
+      logger.info(`${this.name} circuit closed`);
+    }
+    this.state = 'closed';
+    this.failures = 0;
+  }
+
+  private onFailure(error: unknown) {
+    this.failures++;
+
+    if (this.state === 'half_open' || this.failures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.error(`${this.name} circuit opened`, {
+          failures: this.failures,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
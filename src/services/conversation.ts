@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { OPENAI_CONFIG } from '../config/openai';
+import logger from '../config/logger';
+import { completeStructured } from './structuredCompletion';
+import { isAIFailure } from './modelProvider';
+import { ConversationTurn, DialogState, IntentClassification } from '../types';
+
+// Clarifying questions asked before a ticket is created regardless
+export const MAX_CLARIFICATION_TURNS = 2;
+
+// Details staff need before acting on each kind of request
+export const REQUIRED_SLOTS: Record<string, string[]> = {
+  housekeeping: ['items', 'quantity'],
+  room_service: ['items', 'delivery_time'],
+  maintenance: ['issue', 'location'],
+  concierge: ['service', 'date_time'],
+  complaint: ['issue']
+};
+
+const DIALOG_INSTRUCTIONS = `
+    You are now deciding whether a guest request has enough detail for hotel staff to act on it.
+    You receive the conversation so far, the classified intent and the details staff need.
+    Treat reasonable defaults as known (e.g. "now" when no time is given for urgent needs).
+    Ask at most one short, friendly clarifying question, and only for details that are really missing.
+
+    Respond with JSON format: {"complete": false, "collected_slots": {"items": "towels"}, "pending_slots": ["quantity"], "clarifying_question": "How many towels would you like?"}`;
+
+const dialogEvaluationSchema = z.object({
+  complete: z.boolean(),
+  collected_slots: z.record(z.string(), z.union([z.string(), z.number()]).transform(String)).default({}),
+  pending_slots: z.array(z.string()).default([]),
+  clarifying_question: z.string().trim().nullable().optional()
+});
+
+export interface DialogEvaluation {
+  complete: boolean;
+  question: string | null;
+  state: DialogState;
+}
+
+export const parseConversationHistory = (value: unknown): ConversationTurn[] =>
+  Array.isArray(value) ? (value as unknown as ConversationTurn[]) : [];
+
+// Guest side of the conversation plus collected details, used as the ticket request text
+export const summarizeGuestRequest = (history: ConversationTurn[], state: DialogState): string => {
+  const guestText = history
+    .filter(turn => turn.role === 'guest')
+    .map(turn => turn.content)
+    .join('\n');
+
+  const details = Object.entries(state.collected_slots)
+    .map(([slot, value]) => `${slot}: ${value}`)
+    .join('; ');
+
+  return details ? `${guestText}\nDetails: ${details}` : guestText;
+};
+
+export class ConversationManager {
+  // Decide whether the request is actionable or needs a clarifying question
+  static async evaluate(
+    history: ConversationTurn[],
+    classification: IntentClassification,
+    previousState?: DialogState | null,
+    assistantPrompt: string = OPENAI_CONFIG.SYSTEM_PROMPTS.HOSPITALITY_ASSISTANT
+  ): Promise<DialogEvaluation> {
+    const turns = (previousState?.turns || 0) + 1;
+    const requiredSlots = REQUIRED_SLOTS[classification.intent] || [];
+
+    const completeState: DialogEvaluation = {
+      complete: true,
+      question: null,
+      state: {
+        intent: classification.intent,
+        collected_slots: previousState?.collected_slots || {},
+        pending_slots: [],
+        turns
+      }
+    };
+
+    // Nothing to collect for inquiries, compliments and similar, and no follow-up
+    // questions when the keyword classifier is standing in for the model
+    if (requiredSlots.length === 0 || classification.source === 'rules') {
+      return completeState;
+    }
+
+    let evaluation;
+    try {
+      evaluation = await completeStructured({
+        label: 'dialog evaluation',
+        systemPrompt: assistantPrompt + DIALOG_INSTRUCTIONS,
+        input: JSON.stringify({
+          intent: classification.intent,
+          entities: classification.entities,
+          required_details: requiredSlots,
+          known_details: previousState?.collected_slots || {},
+          conversation: history.map(turn => ({ role: turn.role, content: turn.content }))
+        }),
+        maxTokens: 300,
+        parse: (content) => dialogEvaluationSchema.parse(JSON.parse(content))
+      });
+    } catch (error) {
+      if (!isAIFailure(error)) {
+        throw error;
+      }
+      // Better an incomplete ticket than no ticket
+      logger.warn('Dialog evaluation unavailable, proceeding without clarification', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return completeState;
+    }
+
+    const state: DialogState = {
+      intent: classification.intent,
+      collected_slots: { ...previousState?.collected_slots, ...evaluation.collected_slots },
+      pending_slots: evaluation.pending_slots,
+      turns
+    };
+
+    // Stop asking once the guest has answered enough questions
+    const needsQuestion = !evaluation.complete
+      && !!evaluation.clarifying_question
+      && turns <= MAX_CLARIFICATION_TURNS;
+
+    return {
+      complete: !needsQuestion,
+      question: needsQuestion ? evaluation.clarifying_question! : null,
+      state
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { prisma } from '../config/prisma';
+import { voiceConfig } from '../config/env';
+import logger from '../config/logger';
+import { Department, TicketStatus, User } from '../types';
+import { getEmbeddingProvider, cosineSimilarity } from './embeddings';
+import { isAIFailure } from './modelProvider';
+
+// Only recent candidates are compared, newest first
+const MAX_CANDIDATES = 20;
+
+const REQUEST_PREFIX = /^(Voice|Chat) request:\s*/;
+
+export interface DuplicateMatch {
+  ticket: {
+    id: string;
+    title: string;
+    department: Department;
+    status: TicketStatus;
+    created_at: Date;
+  };
+  similarity: number;
+}
+
+export type DuplicateCandidate = DuplicateMatch['ticket'] & { description: string; guest_notes: string | null };
+
+// Texts that stand for what a ticket asked for: the guest's request as recorded
+// on the ticket, and the generated title and description
+const ticketTexts = (ticket: DuplicateCandidate): string[] => [
+  ...(ticket.guest_notes ? [ticket.guest_notes.replace(REQUEST_PREFIX, '')] : []),
+  `${ticket.title}. ${ticket.description}`
+];
+
+// The candidate semantically closest to the request, if any is close enough
+export const closestTicket = async (requestText: string, candidates: DuplicateCandidate[]): Promise<DuplicateMatch | null> => {
+  if (candidates.length === 0) return null;
+
+  const texts = candidates.map(ticketTexts);
+  const [requestEmbedding, ...embeddings] = await getEmbeddingProvider().embed([requestText, ...texts.flat()]);
+
+  let best: DuplicateMatch | null = null;
+  let offset = 0;
+  for (const [index, { description, guest_notes, ...ticket }] of candidates.entries()) {
+    const scores = embeddings
+      .slice(offset, offset + texts[index].length)
+      .map(embedding => cosineSimilarity(requestEmbedding, embedding));
+    offset += texts[index].length;
+
+    const similarity = Math.max(...scores);
+    if (similarity >= voiceConfig.duplicateSimilarity && (!best || similarity > best.similarity)) {
+      best = { ticket, similarity };
+    }
+  }
+
+  return best;
+};
+
+export class DuplicateRequests {
+  // The open ticket a request repeats, if any: one from the same room (or the
+  // same guest, without a room number) in the guest's hotel, created within the
+  // window, whose request is semantically close enough. A missed duplicate only
+  // costs an extra ticket, so AI failures are treated as no match.
+  static async findOpenDuplicate(user: User, requestText: string, roomNumber: string | null): Promise<DuplicateMatch | null> {
+    if (voiceConfig.duplicateWindowMinutes === 0 || !requestText.trim()) return null;
+
+    const since = new Date(Date.now() - voiceConfig.duplicateWindowMinutes * 60 * 1000);
+    const candidates = await prisma.ticket.findMany({
+      where: {
+        status: { in: [TicketStatus.pending, TicketStatus.in_progress] },
+        created_at: { gte: since },
+        creator: { hotel_id: user.hotel_id },
+        ...(roomNumber ? { room_number: roomNumber } : { created_by: user.id })
+      },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        guest_notes: true,
+        department: true,
+        status: true,
+        created_at: true
+      },
+      orderBy: { created_at: 'desc' },
+      take: MAX_CANDIDATES
+    });
+
+    try {
+      return await closestTicket(requestText, candidates);
+    } catch (error) {
+      if (!isAIFailure(error)) throw error;
+      logger.warn('Duplicate request check unavailable, creating a new ticket', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+}
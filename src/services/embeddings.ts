@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import { voiceConfig } from '../config/env';
+import logger from '../config/logger';
+import { getModelProvider } from './modelProvider';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  // Identifies the vector space; embeddings from different models are not comparable
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Embeddings from the AI model provider (OpenAI or a compatible local server)
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+
+  get model() {
+    return getModelProvider().models.embedding;
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    return getModelProvider().embed(texts);
+  }
+}
+
+const LOCAL_DIMENSIONS = 256;
+
+// Deterministic bag-of-words embeddings (hashing trick) for tests and local development
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model = `local-hash-${LOCAL_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+      const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+      for (const token of tokens) {
+        const hash = crypto.createHash('md5').update(token).digest();
+        const index = hash.readUInt32LE(0) % LOCAL_DIMENSIONS;
+        vector[index] += hash[4] & 1 ? 1 : -1;
+      }
+
+      return normalize(vector);
+    });
+  }
+}
+
+const normalize = (vector: number[]): number[] => {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length === 0 ? vector : vector.map(value => value / length);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+let embeddingProvider: EmbeddingProvider | null = null;
+
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  if (!embeddingProvider) {
+    embeddingProvider = voiceConfig.embeddingProvider === 'openai'
+      ? new OpenAIEmbeddingProvider()
+      : new LocalEmbeddingProvider();
+    logger.info(`Embedding provider: ${embeddingProvider.name}`);
+  }
+  return embeddingProvider;
+};
+
+// Allows tests to swap in a custom provider
+export const setEmbeddingProvider = (provider: EmbeddingProvider | null) => {
+  embeddingProvider = provider;
+};
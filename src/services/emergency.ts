@@ -0,0 +1,249 @@
+import { prisma } from '../config/prisma';
+import { voiceConfig } from '../config/env';
+import logger from '../config/logger';
+import {
+  Department,
+  EmergencyAlert,
+  IntentClassification,
+  Ticket,
+  TicketPriority,
+  TicketStatus,
+  User,
+  UserRole,
+  WebSocketMessageType
+} from '../types';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { getWebSocketService } from './websocket';
+
+export const EMERGENCY_TYPES = ['fire', 'medical', 'flooding', 'safety'] as const;
+
+export type EmergencyType = typeof EMERGENCY_TYPES[number];
+
+// Phrases that mark a request as an emergency. Detection is keyword based so it
+// keeps working when the AI provider is down, which means a match skips the
+// classifier: only phrases that describe an emergency belong here, not single
+// words that ordinary requests use ("fire pit", "knife and fork", "help me book").
+export const EMERGENCY_KEYWORDS: Record<EmergencyType, string[]> = {
+  fire: [
+    'on fire', 'there is a fire', "there's a fire", 'fire in the', 'fire in my', 'fire in our', 'smell smoke',
+    'smoke coming', 'smoke is coming', 'full of smoke', 'something is burning', 'smells like burning',
+    'see flames', 'seeing flames', 'flames coming', 'flames are coming', 'in flames', 'fire alarm is going off'
+  ],
+  medical: [
+    'heart attack', 'not breathing', "can't breathe", 'cannot breathe', 'unconscious', 'he collapsed', 'she collapsed',
+    'he has collapsed', 'she has collapsed', 'someone collapsed', 'someone has collapsed', 'somebody collapsed',
+    'husband collapsed', 'wife collapsed', 'child collapsed', 'friend collapsed', 'bleeding badly', 'bleeding heavily',
+    'having a seizure', 'overdose', 'ambulance', 'medical emergency', 'chest pain', 'allergic reaction',
+    'having a stroke', 'fainted', 'need a doctor now', 'need a doctor right now', 'need a doctor urgently',
+    'need a doctor immediately'
+  ],
+  flooding: [
+    'flood', 'flooding', 'flooded', 'water everywhere', 'burst pipe', 'pipe burst', 'water pouring',
+    'water is pouring', 'toilet is overflowing', 'bath is overflowing', 'water overflowing'
+  ],
+  safety: [
+    'intruder', 'trying to break in', 'broke in', 'broke into', 'break-in', 'breaking in', 'has a gun',
+    'with a gun', 'gunshot', 'shots fired', 'has a weapon', 'has a knife', 'with a knife', 'threatening me',
+    'threatening us', 'attacked me', 'attacked us', 'attacked my', 'was attacked', 'were attacked', 'been attacked',
+    'being attacked', 'assaulted', 'being followed', 'stalking me', 'call the police', 'gas leak', 'smell gas',
+    'this is an emergency', "it's an emergency", 'it is an emergency'
+  ]
+};
+
+// Names of things around the hotel, and pests, that contain an emergency phrase; they are
+// removed before matching, so "a fire spreading from the fire pit" still matches
+const NON_EMERGENCY_PHRASES = [
+  'fire pit', 'fireplace', 'fire place', 'fire exit', 'fire escape', 'fire extinguisher', 'fire station',
+  'emergency exit', 'police station', 'flood light', 'floodlight', 'attacked by mosquitoes', 'attacked by mosquito',
+  'attacked by bed bug', 'attacked by bug', 'attacked by insect'
+];
+
+const EMERGENCY_DEPARTMENTS: Record<EmergencyType, Department> = {
+  fire: Department.front_desk,
+  medical: Department.front_desk,
+  flooding: Department.maintenance,
+  safety: Department.front_desk
+};
+
+// Spoken with the EMERGENCY voice context
+export const EMERGENCY_RESPONSES: Record<EmergencyType, string> = {
+  fire: 'Help is on the way. Hotel staff have been alerted to a fire. If it is safe to do so, leave your room now, ' +
+    'use the stairs rather than the elevator, and call emergency services.',
+  medical: 'Help is on the way. Hotel staff have been alerted to a medical emergency. ' +
+    'If someone is in danger, call emergency services now and stay on the line.',
+  flooding: 'Help is on the way. Our maintenance team has been alerted to the flooding. ' +
+    'Please move away from the water and keep clear of electrical outlets.',
+  safety: 'Help is on the way. Hotel staff have been alerted. Lock your door if it is safe to do so, ' +
+    'and call emergency services if you are in immediate danger.'
+};
+
+// Managers, including the lobby managers who run the front desk
+const EMERGENCY_ROLES: UserRole[] = ['lobby_manager', 'general_manager', 'super_admin'];
+
+const RENOTIFY_CHECK_INTERVAL_MS = 15 * 1000;
+
+export interface EmergencyDetection {
+  type: EmergencyType;
+  keywords: string[];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const EMERGENCY_PATTERNS = EMERGENCY_TYPES.map(type => ({
+  type,
+  keywords: EMERGENCY_KEYWORDS[type].map(keyword => ({
+    keyword,
+    pattern: new RegExp(`\\b${escapeRegExp(keyword)}\\b`)
+  }))
+}));
+
+const NON_EMERGENCY_PATTERNS = NON_EMERGENCY_PHRASES.map(phrase => new RegExp(`\\b${escapeRegExp(phrase)}s?\\b`, 'g'));
+
+// Find the most likely emergency in a request, if any
+export const detectEmergency = (text: string): EmergencyDetection | null => {
+  const normalized = NON_EMERGENCY_PATTERNS.reduce(
+    (current, pattern) => current.replace(pattern, ' '),
+    text.toLowerCase().replace(/[’‘]/g, "'")
+  );
+
+  const matches = EMERGENCY_PATTERNS
+    .map(({ type, keywords }) => ({
+      type,
+      keywords: keywords.filter(({ pattern }) => pattern.test(normalized)).map(({ keyword }) => keyword)
+    }))
+    .filter(match => match.keywords.length > 0)
+    .sort((a, b) => b.keywords.length - a.keywords.length);
+
+  return matches[0] || null;
+};
+
+// Classification recorded for an emergency; the model is skipped to save time
+export const emergencyClassification = (detection: EmergencyDetection): IntentClassification => ({
+  intent: 'emergency',
+  confidence: 1,
+  entities: detection.keywords,
+  department: EMERGENCY_DEPARTMENTS[detection.type],
+  priority: TicketPriority.urgent,
+  source: 'rules',
+  matched_keywords: detection.keywords
+});
+
+// Ticket fields for an emergency request
+export const emergencyTicketFields = (detection: EmergencyDetection, requestText: string, roomNumber?: string | null) => ({
+  title: `Emergency: ${detection.type}${roomNumber ? ` reported in room ${roomNumber}` : ' reported'}`,
+  description: requestText.trim(),
+  department: EMERGENCY_DEPARTMENTS[detection.type],
+  priority: TicketPriority.urgent,
+  estimated_completion: 5
+});
+
+const broadcastAlert = (alert: EmergencyAlert, ticket: Ticket | null, action: string) => {
+  const wsService = getWebSocketService();
+  if (!wsService) return;
+
+  // Guest room and request text stay within the hotel the alert came from
+  wsService.broadcastToHotelStaff(alert.hotel_id, EMERGENCY_ROLES, {
+    type: WebSocketMessageType.EMERGENCY_ALERT,
+    payload: { alert, ticket, action },
+    timestamp: new Date().toISOString()
+  });
+};
+
+export class EmergencyService {
+  // Record the alert for an urgent ticket and alert the hotel's managers immediately
+  static async raise(ticket: Ticket, detection: EmergencyDetection, hotelId?: string | null) {
+    const alert = await prisma.emergencyAlert.create({
+      data: {
+        ticket_id: ticket.id,
+        type: detection.type,
+        keywords: detection.keywords,
+        hotel_id: hotelId || null,
+        room_number: ticket.room_number
+      }
+    });
+
+    logger.warn('Emergency reported', {
+      alertId: alert.id,
+      ticketId: ticket.id,
+      type: detection.type,
+      roomNumber: ticket.room_number
+    });
+
+    broadcastAlert(alert, ticket, 'emergency_reported');
+    return alert;
+  }
+
+  // Unacknowledged alerts, oldest first
+  static async listActive(user: User) {
+    return prisma.emergencyAlert.findMany({
+      where: {
+        acknowledged_at: null,
+        ...(user.role !== 'super_admin' && { hotel_id: user.hotel_id })
+      },
+      include: { ticket: true },
+      orderBy: { created_at: 'asc' }
+    });
+  }
+
+  // Stop the repeat alerts; the ticket itself stays open until resolved
+  static async acknowledge(alertId: string, user: User) {
+    const alert = await prisma.emergencyAlert.findUnique({
+      where: { id: alertId },
+      include: { ticket: true }
+    });
+
+    if (!alert || (user.role !== 'super_admin' && alert.hotel_id !== user.hotel_id)) {
+      throw new NotFoundError('Emergency alert not found');
+    }
+    if (alert.acknowledged_at) {
+      throw new ConflictError('Emergency alert has already been acknowledged');
+    }
+
+    const acknowledged = await prisma.emergencyAlert.update({
+      where: { id: alertId },
+      data: { acknowledged_by: user.id, acknowledged_at: new Date() }
+    });
+
+    broadcastAlert(acknowledged, alert.ticket, 'emergency_acknowledged');
+    return acknowledged;
+  }
+
+  // Broadcast again every alert nobody has acknowledged within the interval
+  static async renotifyUnacknowledged(intervalSeconds: number = voiceConfig.emergencyRenotifySeconds) {
+    const cutoff = new Date(Date.now() - intervalSeconds * 1000);
+
+    const alerts = await prisma.emergencyAlert.findMany({
+      where: {
+        acknowledged_at: null,
+        last_notified_at: { lt: cutoff },
+        ticket: { status: { in: [TicketStatus.pending, TicketStatus.in_progress] } }
+      },
+      include: { ticket: true }
+    });
+
+    for (const { ticket, ...alert } of alerts) {
+      const updated = await prisma.emergencyAlert.update({
+        where: { id: alert.id },
+        data: {
+          notification_count: { increment: 1 },
+          last_notified_at: new Date()
+        }
+      });
+      broadcastAlert(updated, ticket, 'emergency_unacknowledged');
+    }
+
+    return alerts.length;
+  }
+}
+
+export const startEmergencyRenotifyJob = () => {
+  const timer = setInterval(() => {
+    EmergencyService.renotifyUnacknowledged().catch((error) => {
+      logger.error('Emergency re-notification failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }, RENOTIFY_CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
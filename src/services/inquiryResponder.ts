@@ -0,0 +1,54 @@
+import { OPENAI_CONFIG } from '../config/openai';
+import { AIServiceError } from '../middleware/errorHandler';
+import { ConversationTurn } from '../types';
+import { KnowledgeBase, KnowledgeSearchResult } from './knowledgeBase';
+import { getModelProvider } from './modelProvider';
+
+const ANSWER_INSTRUCTIONS = `
+    Answer the guest's question directly in two or three short sentences that sound natural when spoken aloud.
+    Use only the hotel information provided for hotel-specific facts such as hours, prices and policies.
+    If you do not know a hotel-specific detail, say so and offer to connect the guest with the front desk.
+    Do not promise to create requests or send staff.`;
+
+export interface InquiryAnswer {
+  answer: string;
+  sources: KnowledgeSearchResult[];
+}
+
+const formatHotelInformation = (sources: KnowledgeSearchResult[]) =>
+  sources.length === 0
+    ? 'Hotel information: none available for this question.'
+    : 'Hotel information:\n' + sources
+      .map(({ article }) => `- ${article.title}: ${article.content}`)
+      .join('\n');
+
+export class InquiryResponder {
+  // Answer a guest question with the HOSPITALITY_ASSISTANT prompt, grounded in the
+  // hotel's knowledge base, instead of opening a ticket
+  static async answer(
+    history: ConversationTurn[],
+    hotelId?: string | null,
+    assistantPrompt: string = OPENAI_CONFIG.SYSTEM_PROMPTS.HOSPITALITY_ASSISTANT
+  ): Promise<InquiryAnswer> {
+    const question = [...history].reverse().find(turn => turn.role === 'guest')?.content || '';
+    const sources = hotelId ? await KnowledgeBase.search(hotelId, question) : [];
+
+    const reply = await getModelProvider().chat({
+      maxTokens: 300,
+      messages: [
+        { role: 'system', content: assistantPrompt + ANSWER_INSTRUCTIONS },
+        { role: 'system', content: formatHotelInformation(sources) },
+        ...history.map(turn => ({
+          role: turn.role === 'guest' ? 'user' as const : 'assistant' as const,
+          content: turn.content
+        }))
+      ]
+    });
+
+    const answer = reply.trim();
+    if (!answer) {
+      throw new AIServiceError('Unable to answer guest inquiry');
+    }
+    return { answer, sources };
+  }
+}
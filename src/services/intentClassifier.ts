@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { OPENAI_CONFIG } from '../config/openai';
+import { voiceConfig } from '../config/env';
+import logger from '../config/logger';
+import { completeStructured } from './structuredCompletion';
+import { isAIFailure } from './modelProvider';
+import { RuleBasedClassifier } from './ruleBasedClassifier';
+import { Department, IntentClassification, TicketPriority } from '../types';
+
+export const INTENT_CATEGORIES = [
+  'housekeeping',
+  'room_service',
+  'concierge',
+  'maintenance',
+  'complaint',
+  'inquiry',
+  'compliment'
+] as const;
+
+export type IntentCategory = typeof INTENT_CATEGORIES[number];
+
+// Department that owns each intent when the model does not name one
+export const INTENT_DEPARTMENTS: Record<IntentCategory, Department> = {
+  housekeeping: Department.housekeeping,
+  room_service: Department.room_service,
+  concierge: Department.concierge,
+  maintenance: Department.maintenance,
+  complaint: Department.front_desk,
+  inquiry: Department.front_desk,
+  compliment: Department.front_desk
+};
+
+const intentClassificationSchema = z.object({
+  intent: z.enum(INTENT_CATEGORIES),
+  confidence: z.number().min(0).max(1),
+  entities: z.array(z.string()).default([]),
+  department: z.enum(Department).optional(),
+  priority: z.enum(TicketPriority).optional()
+});
+
+// Parse and validate a raw model reply, filling in derived fields
+export const parseIntentClassification = (content: string): IntentClassification => {
+  const parsed = intentClassificationSchema.parse(JSON.parse(content));
+
+  return {
+    intent: parsed.intent,
+    confidence: parsed.confidence,
+    entities: parsed.entities,
+    department: parsed.department || INTENT_DEPARTMENTS[parsed.intent],
+    priority: parsed.priority || TicketPriority.medium,
+    source: 'model'
+  };
+};
+
+export class IntentClassifier {
+  // Classify a guest utterance with the INTENT_CLASSIFIER prompt (or a registry
+  // version of it), falling back to the keyword classifier when the model is unavailable
+  static async classify(
+    transcript: string,
+    systemPrompt: string = OPENAI_CONFIG.SYSTEM_PROMPTS.INTENT_CLASSIFIER
+  ): Promise<IntentClassification> {
+    if (voiceConfig.classifierProvider === 'rules') {
+      return RuleBasedClassifier.classify(transcript);
+    }
+
+    try {
+      return await completeStructured({
+        label: 'intent classification',
+        systemPrompt,
+        input: transcript,
+        maxTokens: 300,
+        parse: parseIntentClassification
+      });
+    } catch (error) {
+      if (!isAIFailure(error)) {
+        throw error;
+      }
+      logger.warn('Intent classification unavailable, using rule-based fallback', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return RuleBasedClassifier.classify(transcript, error instanceof Error ? error.message : 'AI unavailable');
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { prisma } from '../config/prisma';
+import { KnowledgeArticle } from '../types';
+import { getEmbeddingProvider, cosineSimilarity } from './embeddings';
+
+export const KNOWLEDGE_CATEGORIES = [
+  'amenities',
+  'wifi',
+  'policies',
+  'dining',
+  'local_recommendations',
+  'general'
+] as const;
+
+// Articles scoring below this are not relevant enough to ground an answer
+const MIN_RELEVANCE_SCORE = 0.25;
+const DEFAULT_SEARCH_LIMIT = 3;
+
+export interface KnowledgeSearchResult {
+  article: Omit<KnowledgeArticle, 'embedding'>;
+  score: number;
+}
+
+const articleText = (article: { title: string; content: string }) => `${article.title}\n${article.content}`;
+
+export class KnowledgeBase {
+  // Embedding and model fields to store alongside an article's text
+  static async embedArticle(article: { title: string; content: string }) {
+    const provider = getEmbeddingProvider();
+    const [embedding] = await provider.embed([articleText(article)]);
+    return { embedding, embedding_model: provider.model };
+  }
+
+  // Semantic search over a hotel's active articles
+  static async search(
+    hotelId: string,
+    query: string,
+    limit: number = DEFAULT_SEARCH_LIMIT,
+    minScore: number = MIN_RELEVANCE_SCORE
+  ): Promise<KnowledgeSearchResult[]> {
+    const provider = getEmbeddingProvider();
+
+    const articles = await prisma.knowledgeArticle.findMany({
+      where: { hotel_id: hotelId, active: true, embedding_model: provider.model }
+    });
+
+    if (articles.length === 0) {
+      return [];
+    }
+
+    const [queryEmbedding] = await provider.embed([query]);
+
+    return articles
+      .map(({ embedding, ...article }) => ({
+        article,
+        score: cosineSimilarity(queryEmbedding, embedding)
+      }))
+      .filter(result => result.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Re-embed every article for a hotel, e.g. after switching embedding models
+  static async reindex(hotelId: string): Promise<number> {
+    const articles = await prisma.knowledgeArticle.findMany({ where: { hotel_id: hotelId } });
+
+    for (const article of articles) {
+      await prisma.knowledgeArticle.update({
+        where: { id: article.id },
+        data: await KnowledgeBase.embedArticle(article)
+      });
+    }
+
+    return articles.length;
+  }
+}
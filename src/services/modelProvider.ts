@@ -0,0 +1,183 @@
+import OpenAI, { APIError, toFile } from 'openai';
+import { openai, OPENAI_CONFIG } from '../config/openai';
+import { aiConfig } from '../config/env';
+import logger from '../config/logger';
+import { AIServiceError, AIUnavailableError } from '../middleware/errorHandler';
+import { CircuitBreaker, CircuitOpenError } from './circuitBreaker';
+import { recordUsage, estimateAudioSeconds } from './usage';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a JSON object reply
+  json?: boolean;
+}
+
+export interface TranscriptionRequest {
+  filename: string;
+  contentType: string;
+  language?: string;
+}
+
+// The model calls the voice pipeline depends on
+export interface ModelProvider {
+  readonly name: string;
+  readonly models: { chat: string; embedding: string; transcription: string };
+  chat(request: ChatRequest): Promise<string>;
+  embed(texts: string[]): Promise<number[][]>;
+  transcribe(audio: Buffer, request: TranscriptionRequest): Promise<string>;
+}
+
+// OpenAI, or any server implementing its API (Ollama, vLLM, llama.cpp, LocalAI).
+// Timeouts and retries of transient errors are configured on the client. Every
+// call is metered for usage reporting.
+export class OpenAICompatibleModelProvider implements ModelProvider {
+  readonly models = {
+    chat: OPENAI_CONFIG.MODELS.CHAT,
+    embedding: OPENAI_CONFIG.MODELS.EMBEDDING,
+    transcription: OPENAI_CONFIG.MODELS.WHISPER
+  };
+
+  constructor(readonly name: string, private readonly client: OpenAI = openai) {}
+
+  async chat(request: ChatRequest): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.models.chat,
+      temperature: request.temperature ?? OPENAI_CONFIG.CHAT_PARAMS.temperature,
+      max_tokens: request.maxTokens || OPENAI_CONFIG.CHAT_PARAMS.max_tokens,
+      ...(request.json && { response_format: { type: 'json_object' as const } }),
+      messages: request.messages
+    });
+
+    recordUsage({
+      kind: 'chat',
+      provider: this.name,
+      model: completion.model || this.models.chat,
+      prompt_tokens: completion.usage?.prompt_tokens,
+      completion_tokens: completion.usage?.completion_tokens
+    });
+
+    return completion.choices[0]?.message?.content || '';
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.models.embedding,
+      input: texts
+    });
+
+    recordUsage({
+      kind: 'embedding',
+      provider: this.name,
+      model: this.models.embedding,
+      prompt_tokens: response.usage?.prompt_tokens
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  async transcribe(audio: Buffer, request: TranscriptionRequest): Promise<string> {
+    const file = await toFile(audio, request.filename, { type: request.contentType });
+
+    const transcription = await this.client.audio.transcriptions.create({
+      file,
+      model: this.models.transcription,
+      language: request.language
+    });
+
+    recordUsage({
+      kind: 'transcription',
+      provider: this.name,
+      model: this.models.transcription,
+      audio_seconds: estimateAudioSeconds(audio, request.contentType)
+    });
+
+    return transcription.text;
+  }
+}
+
+// Outages, rate limits and credential problems count against the circuit;
+// other client errors are specific to one request
+const isOutage = (error: unknown): boolean => {
+  if (!(error instanceof APIError) || error.status === undefined) return true;
+  return error.status >= 500 || [401, 403, 408, 429].includes(error.status);
+};
+
+// Wraps a provider with a circuit breaker and maps failures to API errors, so
+// callers can fall back to degraded behaviour on AIUnavailableError
+export class ResilientModelProvider implements ModelProvider {
+  private readonly circuit: CircuitBreaker;
+
+  constructor(private readonly provider: ModelProvider) {
+    this.circuit = new CircuitBreaker(`AI provider (${provider.name})`, aiConfig.circuitBreaker);
+  }
+
+  get name() {
+    return this.provider.name;
+  }
+
+  get models() {
+    return this.provider.models;
+  }
+
+  chat(request: ChatRequest): Promise<string> {
+    return this.call('chat completion', () => this.provider.chat(request));
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    return this.call('embedding', () => this.provider.embed(texts));
+  }
+
+  transcribe(audio: Buffer, request: TranscriptionRequest): Promise<string> {
+    return this.call('transcription', () => this.provider.transcribe(audio, request));
+  }
+
+  getStatus() {
+    return { provider: this.name, models: this.models, circuit: this.circuit.getStatus() };
+  }
+
+  private async call<T>(label: string, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await this.circuit.execute(fn, isOutage);
+    } catch (error) {
+      if (error instanceof CircuitOpenError) {
+        throw new AIUnavailableError();
+      }
+
+      logger.error(`AI ${label} failed`, {
+        provider: this.name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw isOutage(error)
+        ? new AIUnavailableError()
+        : new AIServiceError(`AI ${label} failed`);
+    }
+  }
+}
+
+let modelProvider: ResilientModelProvider | null = null;
+
+export const getModelProvider = (): ResilientModelProvider => {
+  if (!modelProvider) {
+    modelProvider = new ResilientModelProvider(new OpenAICompatibleModelProvider(aiConfig.provider));
+    logger.info(`AI model provider: ${aiConfig.provider}${aiConfig.baseUrl ? ` (${aiConfig.baseUrl})` : ''}`);
+  }
+  return modelProvider;
+};
+
+// Allows tests to swap in a custom provider
+export const setModelProvider = (provider: ModelProvider | null) => {
+  modelProvider = provider ? new ResilientModelProvider(provider) : null;
+};
+
+// AI failures that should trigger degraded handling rather than fail the request
+export const isAIFailure = (error: unknown): boolean =>
+  error instanceof AIUnavailableError || error instanceof AIServiceError;
@@ -0,0 +1,170 @@
+import { prisma } from '../config/prisma';
+import { OPENAI_CONFIG } from '../config/openai';
+import logger from '../config/logger';
+import { PromptVersion } from '../types';
+
+export const PROMPT_KEYS = ['HOSPITALITY_ASSISTANT', 'INTENT_CLASSIFIER', 'TICKET_GENERATOR'] as const;
+
+export type PromptKey = typeof PROMPT_KEYS[number];
+
+export interface ResolvedPrompt {
+  // null when the built-in prompt from OPENAI_CONFIG is served
+  id: string | null;
+  version: number | null;
+  content: string;
+}
+
+export type PromptSelection = Record<PromptKey, ResolvedPrompt>;
+
+// What is stored in VoiceSession.prompt_versions
+export type PromptVersionRecord = Record<PromptKey, { id: string | null; version: number | null }>;
+
+const builtInPrompt = (key: PromptKey): ResolvedPrompt => ({
+  id: null,
+  version: null,
+  content: OPENAI_CONFIG.SYSTEM_PROMPTS[key]
+});
+
+const toResolved = (prompt: PromptVersion): ResolvedPrompt => ({
+  id: prompt.id,
+  version: prompt.version,
+  content: prompt.content
+});
+
+// Pick one version in proportion to its traffic weight
+const pickWeighted = (versions: PromptVersion[], random: () => number): PromptVersion => {
+  const total = versions.reduce((sum, version) => sum + version.traffic_weight, 0);
+  let roll = random() * total;
+
+  for (const version of versions) {
+    roll -= version.traffic_weight;
+    if (roll < 0) return version;
+  }
+  return versions[versions.length - 1];
+};
+
+// Choose among the versions that carry traffic for a hotel. A hotel's own versions
+// take precedence over global ones; when several carry traffic the split is weighted.
+export const choosePrompts = (versions: PromptVersion[], random: () => number = Math.random): PromptSelection =>
+  Object.fromEntries(PROMPT_KEYS.map(key => {
+    const forKey = versions.filter(version => version.key === key);
+    const hotelVersions = forKey.filter(version => version.hotel_id !== null);
+    const candidates = hotelVersions.length > 0 ? hotelVersions : forKey;
+
+    return [key, candidates.length > 0 ? toResolved(pickWeighted(candidates, random)) : builtInPrompt(key)];
+  })) as PromptSelection;
+
+export const recordPromptVersions = (selection: PromptSelection): PromptVersionRecord =>
+  Object.fromEntries(
+    PROMPT_KEYS.map(key => [key, { id: selection[key].id, version: selection[key].version }])
+  ) as PromptVersionRecord;
+
+export const isPromptKey = (value: unknown): value is PromptKey =>
+  typeof value === 'string' && (PROMPT_KEYS as readonly string[]).includes(value);
+
+export class PromptRegistry {
+  // Choose the prompts for a new session, falling back to the built-in ones
+  static async select(hotelId?: string | null): Promise<PromptSelection> {
+    try {
+      const versions = await prisma.promptVersion.findMany({
+        where: {
+          traffic_weight: { gt: 0 },
+          OR: [{ hotel_id: null }, ...(hotelId ? [{ hotel_id: hotelId }] : [])]
+        }
+      });
+
+      return choosePrompts(versions);
+    } catch (error) {
+      // Serving the built-in prompts beats failing the guest's request
+      logger.error('Failed to load prompt versions, using built-in prompts', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return choosePrompts([]);
+    }
+  }
+
+  // Reload the prompts a session started with so every turn uses the same versions
+  static async restore(record: unknown, hotelId?: string | null): Promise<PromptSelection> {
+    if (!record || typeof record !== 'object') {
+      return PromptRegistry.select(hotelId);
+    }
+
+    const recorded = record as Partial<PromptVersionRecord>;
+    const ids = PROMPT_KEYS.map(key => recorded[key]?.id).filter((id): id is string => !!id);
+    const versions = ids.length > 0
+      ? await prisma.promptVersion.findMany({ where: { id: { in: ids } } })
+      : [];
+
+    return Object.fromEntries(PROMPT_KEYS.map(key => {
+      const version = versions.find(candidate => candidate.id === recorded[key]?.id);
+      return [key, version ? toResolved(version) : builtInPrompt(key)];
+    })) as PromptSelection;
+  }
+
+  // Outcomes of the sessions served by each version of a prompt, for A/B comparison
+  static async compare(key: PromptKey, hotelId: string | null, from?: Date, to?: Date) {
+    const sessions = await prisma.voiceSession.findMany({
+      where: {
+        ...(hotelId && { user: { hotel_id: hotelId } }),
+        ...((from || to) && { created_at: { gte: from, lte: to } })
+      },
+      select: {
+        prompt_versions: true,
+        status: true,
+        outcome: true,
+        confidence_score: true,
+        processing_time: true,
+        dialog_state: true,
+        intent_classification: true,
+        reviewed_by: true
+      }
+    });
+
+    const groups = new Map<string, { id: string | null; version: number | null; sessions: typeof sessions }>();
+
+    for (const session of sessions) {
+      const served = (session.prompt_versions as Partial<PromptVersionRecord> | null)?.[key];
+      if (!served) continue;
+
+      const groupKey = served.id || 'built-in';
+      const group = groups.get(groupKey) || { id: served.id, version: served.version, sessions: [] };
+      group.sessions.push(session);
+      groups.set(groupKey, group);
+    }
+
+    const average = (values: (number | null)[]) => {
+      const present = values.filter((value): value is number => value !== null);
+      return present.length ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+    };
+    const share = (count: number, total: number) => total ? Math.round((count / total) * 1000) / 10 : 0;
+
+    return Array.from(groups.values()).map(({ id, version, sessions: served }) => {
+      const total = served.length;
+      const count = (predicate: (session: typeof served[number]) => boolean) => served.filter(predicate).length;
+
+      return {
+        prompt_version_id: id,
+        version,
+        sessions: total,
+        avg_confidence: average(served.map(session => session.confidence_score)),
+        avg_processing_time_ms: average(served.map(session => session.processing_time)),
+        outcomes: {
+          ticket_created: count(session => session.outcome === 'ticket_created'),
+          answered: count(session => session.outcome === 'answered'),
+          feedback_recorded: count(session => session.outcome === 'feedback_recorded')
+        },
+        // Percentages of sessions
+        clarification_rate: share(
+          count(session => ((session.dialog_state as { turns?: number } | null)?.turns || 0) > 1),
+          total
+        ),
+        review_rate: share(count(session => session.status === 'pending_review' || session.reviewed_by !== null), total),
+        rejection_rate: share(count(session => session.status === 'rejected'), total),
+        rules_fallback_rate: share(
+          count(session => (session.intent_classification as { source?: string } | null)?.source === 'rules'),
+          total
+        )
+      };
+    }).sort((a, b) => (a.version ?? 0) - (b.version ?? 0));
+  }
+}
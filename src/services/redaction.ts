@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import { prisma } from '../config/prisma';
+import { privacyConfig } from '../config/env';
+
+export type PIIType = 'card_number' | 'national_id' | 'passport_number' | 'email' | 'phone_number';
+
+export type RedactedResource = 'voice_session' | 'ticket';
+
+export interface RedactionResult {
+  text: string;
+  types: PIIType[];
+}
+
+// Fields written with PII masked, and the originals of those that changed
+export interface ProtectedFields<T> {
+  data: T;
+  originals: Partial<T>;
+  types: PIIType[];
+}
+
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const digitCount = (value: string) => value.replace(/\D/g, '').length;
+
+// Dates the phone pattern would otherwise take: 2026-10-19, 19.10.2026, 10-19-2026
+const isDate = (value: string): boolean => {
+  const parts = value.split(/[.-]/);
+  if (parts.length !== 3) return false;
+
+  const [year, first, second] = parts[0].length === 4 ? parts : [parts[2], parts[0], parts[1]];
+  if (!/^(19|20)\d{2}$/.test(year)) return false;
+
+  const [a, b] = [Number(first), Number(second)];
+  return a >= 1 && b >= 1 && ((a <= 12 && b <= 31) || (a <= 31 && b <= 12));
+};
+
+// Applied in order, so card numbers are masked before the phone pattern sees them
+const PII_PATTERNS: { type: PIIType; pattern: RegExp; mask: (match: string, ...groups: string[]) => string | null }[] = [
+  {
+    type: 'card_number',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    mask: (match) => {
+      const digits = match.replace(/\D/g, '');
+      return passesLuhn(digits) ? `[card ending ${digits.slice(-4)}]` : null;
+    }
+  },
+  {
+    type: 'national_id',
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+    mask: () => '[id number]'
+  },
+  {
+    type: 'passport_number',
+    pattern: /(passport(?:\s+(?:number|no\.?|#))?(?:\s+is)?[\s:]*)([A-Z0-9]{6,9})\b/gi,
+    mask: (_match, label: string, id: string) => /\d/.test(id) ? `${label}[passport number]` : null
+  },
+  {
+    type: 'email',
+    pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+    mask: () => '[email]'
+  },
+  {
+    // International prefix or grouped digits; dates and short numbers such as rooms are left alone
+    type: 'phone_number',
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]\d{2,5}){1,4}\b/g,
+    mask: (match) => {
+      const digits = digitCount(match);
+      if (digits < 7 || digits > 15 || isDate(match)) return null;
+      return '[phone number]';
+    }
+  }
+];
+
+// Mask card numbers, ID and passport numbers, email addresses and phone numbers
+export const redactText = (text: string): RedactionResult => {
+  const types = new Set<PIIType>();
+
+  const redacted = PII_PATTERNS.reduce((current, { type, pattern, mask }) =>
+    current.replace(pattern, (match: string, ...groups: unknown[]) => {
+      const masked = mask(match, ...(groups.filter(group => typeof group === 'string') as string[]));
+      if (masked === null) return match;
+      types.add(type);
+      return masked;
+    }), text);
+
+  return { text: redacted, types: Array.from(types) };
+};
+
+// Redact every string inside a value (e.g. conversation history or log metadata)
+export const redactValue = <T>(value: T, types: Set<PIIType> = new Set(), depth = 0): T => {
+  if (typeof value === 'string') {
+    const result = redactText(value);
+    result.types.forEach(type => types.add(type));
+    return result.text as T;
+  }
+  if (depth > 5 || value === null || typeof value !== 'object' || value instanceof Date || Buffer.isBuffer(value)) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, types, depth + 1)) as T;
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, redactValue(item, types, depth + 1)])
+  ) as T;
+};
+
+// AES-256-GCM with a key derived from PII_ENCRYPTION_KEY (or JWT_SECRET)
+const encryptionKey = (): Buffer => {
+  if (!privacyConfig.encryptionKey) {
+    throw new Error('PII_ENCRYPTION_KEY or JWT_SECRET is required to store unredacted content');
+  }
+  return crypto.createHash('sha256').update(privacyConfig.encryptionKey).digest();
+};
+
+const encrypt = (plaintext: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return `v1:${[iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':')}`;
+};
+
+const decrypt = (payload: string): string => {
+  const [, iv, tag, ciphertext] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+export class PIIVault {
+  // Mask PII in the fields about to be written. Undefined fields are skipped so
+  // partial updates work.
+  static protect<T extends Record<string, unknown>>(fields: T): ProtectedFields<T> {
+    const types = new Set<PIIType>();
+    const data = { ...fields };
+    const originals: Partial<T> = {};
+
+    for (const key of Object.keys(fields) as (keyof T)[]) {
+      const value = fields[key];
+      if (value === undefined || value === null) continue;
+
+      const fieldTypes = new Set<PIIType>();
+      data[key] = redactValue(value, fieldTypes);
+      if (fieldTypes.size > 0) {
+        originals[key] = value;
+        fieldTypes.forEach(type => types.add(type));
+      }
+    }
+
+    return { data, originals, types: Array.from(types) };
+  }
+
+  // Keep the unredacted originals of a write. Fields written without PII drop
+  // their old original; fields not written keep theirs.
+  static async save<T extends Record<string, unknown>>(
+    resourceType: RedactedResource,
+    resourceId: string,
+    fields: ProtectedFields<T>
+  ) {
+    const where = { resource_type_resource_id: { resource_type: resourceType, resource_id: resourceId } };
+    const existing = await prisma.redactedContent.findUnique({ where });
+
+    if (!existing && fields.types.length === 0) return;
+
+    const previous = existing ? JSON.parse(decrypt(existing.ciphertext)) as Record<string, unknown> : {};
+    const kept = Object.fromEntries(
+      Object.entries(previous).filter(([key]) => fields.data[key] === undefined)
+    );
+    const originals = { ...kept, ...fields.originals };
+
+    if (Object.keys(originals).length === 0) {
+      await prisma.redactedContent.delete({ where });
+      return;
+    }
+
+    const piiTypes = Array.from(new Set([...(existing?.pii_types || []), ...fields.types]));
+    const ciphertext = encrypt(JSON.stringify(originals));
+
+    await prisma.redactedContent.upsert({
+      where,
+      create: { resource_type: resourceType, resource_id: resourceId, ciphertext, pii_types: piiTypes },
+      update: { ciphertext, pii_types: piiTypes }
+    });
+  }
+
+  // Drop a record's originals along with it; run in the record's delete transaction
+  static forget(resourceType: RedactedResource, resourceId: string) {
+    return prisma.redactedContent.deleteMany({
+      where: { resource_type: resourceType, resource_id: resourceId }
+    });
+  }
+
+  // The unredacted originals of a record's masked fields, if any
+  static async reveal(resourceType: RedactedResource, resourceId: string) {
+    const content = await prisma.redactedContent.findUnique({
+      where: { resource_type_resource_id: { resource_type: resourceType, resource_id: resourceId } }
+    });
+
+    if (!content) return null;
+
+    return {
+      fields: JSON.parse(decrypt(content.ciphertext)) as Record<string, unknown>,
+      pii_types: content.pii_types
+    };
+  }
+}
@@ -0,0 +1,162 @@
+import { prisma } from '../config/prisma';
+import {
+  Department,
+  TicketPriority,
+  User,
+  UserRole,
+  VoiceRequestOutcome,
+  VoiceSessionStatus,
+  WebSocketMessageType
+} from '../types';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { getWebSocketService } from './websocket';
+import { createVoiceTicket, VoiceTicketDraft } from './voicePipeline';
+import { PIIVault } from './redaction';
+
+export interface ReviewCorrections {
+  department?: Department;
+  priority?: TicketPriority;
+  notes?: string;
+}
+
+const REVIEWERS: UserRole[] = ['lobby_manager', 'general_manager', 'super_admin'];
+
+// Managers review their own hotel's guests; super admins see every hotel
+const hotelScope = (reviewer: User) =>
+  reviewer.role === 'super_admin' ? {} : { user: { hotel_id: reviewer.hotel_id } };
+
+// Load a held session the reviewer is allowed to act on
+const loadPendingSession = async (sessionId: string, reviewer: User) => {
+  const session = await prisma.voiceSession.findFirst({
+    where: { id: sessionId, ...hotelScope(reviewer) },
+    include: { user: { select: { hotel_id: true } } }
+  });
+
+  if (!session) {
+    throw new NotFoundError('Voice session not found');
+  }
+  if (session.status !== VoiceSessionStatus.pending_review || !session.review_data) {
+    throw new ConflictError('Voice session is not pending review');
+  }
+
+  return session;
+};
+
+// Mark the session reviewed, failing if another manager got there first
+const claimSession = async (sessionId: string, reviewer: User, status: VoiceSessionStatus, notes?: string) => {
+  const claimed = await prisma.voiceSession.updateMany({
+    where: { id: sessionId, status: VoiceSessionStatus.pending_review },
+    data: {
+      status,
+      reviewed_by: reviewer.id,
+      reviewed_at: new Date(),
+      review_notes: notes || null
+    }
+  });
+
+  if (claimed.count === 0) {
+    throw new ConflictError('Voice session has already been reviewed');
+  }
+};
+
+const notifyGuest = (userId: string, payload: Record<string, unknown>) => {
+  const wsService = getWebSocketService();
+  if (wsService) {
+    wsService.broadcastToUser(userId, {
+      type: WebSocketMessageType.VOICE_RESPONSE,
+      payload,
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
+// Reviews carry the guest's request, so only the guest's hotel hears of them
+const notifyReviewers = (hotelId: string | null, payload: Record<string, unknown>) => {
+  const wsService = getWebSocketService();
+  if (wsService) {
+    wsService.broadcastToHotelStaff(hotelId, REVIEWERS, {
+      type: WebSocketMessageType.VOICE_REVIEW,
+      payload,
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
+export class ReviewQueue {
+  // Low-confidence voice requests waiting for a decision, oldest first
+  static async list(reviewer: User) {
+    return prisma.voiceSession.findMany({
+      where: { status: VoiceSessionStatus.pending_review, ...hotelScope(reviewer) },
+      include: {
+        user: {
+          select: {
+            id: true,
+            first_name: true,
+            last_name: true,
+            room_number: true
+          }
+        }
+      },
+      orderBy: { created_at: 'asc' }
+    });
+  }
+
+  // Create the held ticket, applying any department or priority corrections
+  static async approve(sessionId: string, reviewer: User, corrections: ReviewCorrections = {}) {
+    const session = await loadPendingSession(sessionId, reviewer);
+    // The ticket is built from the unredacted draft and masks PII itself
+    const revealed = await PIIVault.reveal('voice_session', session.id);
+    const draft = (revealed?.fields.review_data ?? session.review_data) as unknown as VoiceTicketDraft;
+
+    await claimSession(sessionId, reviewer, VoiceSessionStatus.completed, corrections.notes);
+
+    let ticket;
+    try {
+      ticket = await createVoiceTicket({
+        ...draft,
+        department: corrections.department || draft.department,
+        priority: corrections.priority || draft.priority
+      }, session.user_id, session.id);
+    } catch (error) {
+      // Put the request back in the queue rather than losing it
+      await prisma.voiceSession.update({
+        where: { id: sessionId },
+        data: { status: VoiceSessionStatus.pending_review, reviewed_by: null, reviewed_at: null, review_notes: null }
+      });
+      throw error;
+    }
+
+    const voiceSession = await prisma.voiceSession.update({
+      where: { id: sessionId },
+      data: { outcome: VoiceRequestOutcome.ticket_created }
+    });
+
+    notifyGuest(session.user_id, { voiceSession, ticket, action: 'voice_review_approved' });
+    notifyReviewers(session.user.hotel_id, { voiceSession, ticket, action: 'voice_review_resolved' });
+
+    const wsService = getWebSocketService();
+    if (wsService) {
+      wsService.broadcastToHotelStaff(session.user.hotel_id, ['housekeeping'], {
+        type: WebSocketMessageType.VOICE_RESPONSE,
+        payload: { voiceSession, ticket, action: 'voice_request_processed' },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return { voiceSession, ticket };
+  }
+
+  // Close the request without creating a ticket
+  static async reject(sessionId: string, reviewer: User, reason?: string) {
+    const session = await loadPendingSession(sessionId, reviewer);
+
+    await claimSession(sessionId, reviewer, VoiceSessionStatus.rejected, reason);
+
+    const voiceSession = await prisma.voiceSession.findUniqueOrThrow({ where: { id: session.id } });
+
+    notifyGuest(session.user_id, { voiceSession, action: 'voice_review_rejected' });
+    notifyReviewers(session.user.hotel_id, { voiceSession, action: 'voice_review_resolved' });
+
+    return voiceSession;
+  }
+}
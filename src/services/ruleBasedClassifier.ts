@@ -0,0 +1,156 @@
+import { Department, IntentClassification, TicketPriority } from '../types';
+import { INTENT_DEPARTMENTS, IntentCategory } from './intentClassifier';
+import { GeneratedTicket } from './ticketGenerator';
+
+// Keywords and phrases for each INTENT_CLASSIFIER category. Plurals match automatically.
+export const INTENT_KEYWORDS: Record<IntentCategory, string[]> = {
+  housekeeping: [
+    'towel', 'sheet', 'pillow', 'blanket', 'linen', 'bathrobe', 'robe', 'hanger', 'toilet paper',
+    'toiletries', 'shampoo', 'conditioner', 'soap', 'toothbrush', 'clean', 'cleaning', 'housekeeping',
+    'make up the room', 'turndown', 'trash', 'garbage', 'vacuum', 'laundry', 'iron', 'slippers'
+  ],
+  room_service: [
+    'room service', 'food', 'breakfast', 'lunch', 'dinner', 'menu', 'order', 'hungry', 'coffee', 'tea',
+    'wine', 'beer', 'champagne', 'drink', 'bottle of water', 'sandwich', 'burger', 'pizza', 'salad',
+    'dessert', 'snack', 'ice bucket', 'ice'
+  ],
+  maintenance: [
+    'broken', 'leak', 'leaking', 'not working', "doesn't work", "isn't working", "won't", 'fix', 'repair',
+    'air conditioning', 'air conditioner', 'ac', 'heater', 'heating', 'thermostat', 'clogged', 'drain',
+    'plumbing', 'shower', 'faucet', 'light bulb', 'bulb', 'tv', 'television', 'remote', 'outlet', 'power',
+    'door lock', 'safe', 'elevator', 'no hot water'
+  ],
+  concierge: [
+    'recommend', 'recommendation', 'reservation', 'book', 'booking', 'taxi', 'cab', 'uber', 'car rental',
+    'tour', 'ticket', 'museum', 'show', 'directions', 'airport', 'shuttle', 'spa appointment', 'nearby',
+    'things to do', 'restaurant'
+  ],
+  complaint: [
+    'complain', 'complaint', 'unacceptable', 'terrible', 'awful', 'horrible', 'disappointed', 'disappointing',
+    'rude', 'noisy', 'noise', 'loud', 'dirty', 'filthy', 'still waiting', 'waited', 'worst', 'refund',
+    'speak to a manager', 'not happy', 'unhappy', 'smells'
+  ],
+  inquiry: [
+    'what time', 'when does', 'when is', 'where is', 'where are', 'is there', 'are there', 'do you have',
+    'how do i', 'how can i', 'how much', 'opening hours', 'open', 'close', 'checkout', 'check out',
+    'check-out', 'wifi password', 'password', 'hours'
+  ],
+  compliment: [
+    'thank you', 'thanks', 'great job', 'wonderful', 'amazing', 'excellent', 'fantastic', 'lovely',
+    'love', 'appreciate', 'perfect', 'beautiful', 'delicious', 'best stay'
+  ]
+};
+
+// Winner on equal scores: service requests before sentiment, questions last
+const INTENT_PRECEDENCE: IntentCategory[] = [
+  'complaint',
+  'maintenance',
+  'housekeeping',
+  'room_service',
+  'concierge',
+  'compliment',
+  'inquiry'
+];
+
+const HIGH_PRIORITY_KEYWORDS = ['urgent', 'urgently', 'immediately', 'right now', 'asap', 'as soon as possible'];
+
+const QUESTION_OPENING = /^(what|when|where|how|is there|are there|do you|does|can you tell)\b/;
+
+const ESTIMATED_MINUTES: Record<Department, number> = {
+  [Department.housekeeping]: 20,
+  [Department.room_service]: 45,
+  [Department.maintenance]: 60,
+  [Department.concierge]: 30,
+  [Department.front_desk]: 15
+};
+
+const TICKET_TITLES: Record<IntentCategory, string> = {
+  housekeeping: 'Housekeeping request',
+  room_service: 'Room service order',
+  concierge: 'Concierge request',
+  maintenance: 'Maintenance issue',
+  complaint: 'Guest complaint',
+  inquiry: 'Guest question',
+  compliment: 'Guest compliment'
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const keywordPattern = (keyword: string) => new RegExp(`\\b${escapeRegExp(keyword)}(s|es)?\\b`);
+
+const KEYWORD_PATTERNS = Object.fromEntries(
+  Object.entries(INTENT_KEYWORDS).map(([intent, keywords]) => [
+    intent,
+    keywords.map(keyword => ({ keyword, pattern: keywordPattern(keyword) }))
+  ])
+) as Record<IntentCategory, { keyword: string; pattern: RegExp }[]>;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[’‘]/g, "'").replace(/\s+/g, ' ').trim();
+
+export class RuleBasedClassifier {
+  // Deterministic keyword classification, used when the AI provider is unavailable,
+  // over budget, or not configured (local development and tests). The result is
+  // flagged with source "rules" so these decisions can be audited.
+  static classify(transcript: string, fallbackReason?: string): IntentClassification {
+    const text = normalize(transcript);
+
+    const matches = INTENT_PRECEDENCE.map(intent => ({
+      intent,
+      keywords: KEYWORD_PATTERNS[intent]
+        .filter(({ pattern }) => pattern.test(text))
+        .map(({ keyword }) => keyword)
+    }));
+
+    // Questions lean towards inquiries unless they clearly ask for a service
+    if (QUESTION_OPENING.test(text)) {
+      matches.find(match => match.intent === 'inquiry')!.keywords.push('question');
+    }
+
+    const ranked = [...matches].sort((a, b) =>
+      b.keywords.length - a.keywords.length
+      || INTENT_PRECEDENCE.indexOf(a.intent) - INTENT_PRECEDENCE.indexOf(b.intent)
+    );
+    const [best, runnerUp] = ranked;
+
+    const intent: IntentCategory = best.keywords.length > 0 ? best.intent : 'inquiry';
+    const margin = best.keywords.length - runnerUp.keywords.length;
+    const confidence = best.keywords.length === 0
+      ? 0.3
+      : Math.min(0.9, 0.5 + 0.15 * margin + 0.05 * best.keywords.length);
+
+    const urgent = HIGH_PRIORITY_KEYWORDS.some(keyword => keywordPattern(keyword).test(text));
+
+    return {
+      intent,
+      confidence: Math.round(confidence * 100) / 100,
+      entities: best.keywords.filter(keyword => keyword !== 'question'),
+      department: INTENT_DEPARTMENTS[intent],
+      priority: urgent || intent === 'complaint' ? TicketPriority.high : TicketPriority.medium,
+      source: 'rules',
+      matched_keywords: matches.flatMap(match => match.keywords),
+      ...(fallbackReason && { fallback_reason: fallbackReason })
+    };
+  }
+
+  // Ticket built from the request text and classification alone
+  static generateTicket(transcript: string, classification: IntentClassification): GeneratedTicket {
+    const intent = (classification.intent in TICKET_TITLES ? classification.intent : 'inquiry') as IntentCategory;
+    const department = Object.values(Department).includes(classification.department as Department)
+      ? classification.department as Department
+      : INTENT_DEPARTMENTS[intent];
+    const priority = Object.values(TicketPriority).includes(classification.priority as TicketPriority)
+      ? classification.priority as TicketPriority
+      : TicketPriority.medium;
+
+    const subject = classification.entities.slice(0, 3).join(', ');
+
+    return {
+      title: subject ? `${TICKET_TITLES[intent]}: ${subject}` : TICKET_TITLES[intent],
+      description: transcript.trim(),
+      department,
+      priority,
+      estimated_completion: ESTIMATED_MINUTES[department],
+      required_resources: classification.entities
+    };
+  }
+}
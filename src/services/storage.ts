@@ -0,0 +1,168 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand
+} from '@aws-sdk/client-s3';
+import { storageConfig } from '../config/env';
+import logger from '../config/logger';
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  contentType: string;
+}
+
+export interface StorageBackend {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<StoredObject>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+  '.webm': 'audio/webm'
+};
+
+export const contentTypeForKey = (key: string): string =>
+  CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+
+// Stores objects as files under a root directory
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'local';
+
+  constructor(private rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<StoredObject> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return { key, size: data.length, contentType };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Stores objects in an S3-compatible bucket (AWS S3, MinIO, ...)
+export class S3StorageBackend implements StorageBackend {
+  readonly name = 's3';
+  private client: S3Client;
+
+  constructor(private bucket: string, config: typeof storageConfig.s3) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<StoredObject> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType
+    }));
+    return { key, size: data.length, contentType };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!result.Body) {
+        return null;
+      }
+      return Buffer.from(await result.Body.transformToByteArray());
+    } catch (error) {
+      if ((error as Error).name === 'NoSuchKey') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+let storageBackend: StorageBackend | null = null;
+
+export const getStorageBackend = (): StorageBackend => {
+  if (!storageBackend) {
+    if (storageConfig.driver === 's3') {
+      if (!storageConfig.s3.bucket) {
+        throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+      }
+      storageBackend = new S3StorageBackend(storageConfig.s3.bucket, storageConfig.s3);
+    } else {
+      storageBackend = new LocalStorageBackend(storageConfig.localPath);
+    }
+    logger.info(`Storage backend: ${storageBackend.name}`);
+  }
+  return storageBackend;
+};
+
+// Allows tests to swap in a custom backend
+export const setStorageBackend = (backend: StorageBackend | null) => {
+  storageBackend = backend;
+};
+
+// Signed download URLs
+
+const signStorageKey = (key: string, expires: number): string => {
+  if (!storageConfig.signingSecret) {
+    throw new Error('STORAGE_SIGNING_SECRET or JWT_SECRET is required to sign storage URLs');
+  }
+  return crypto
+    .createHmac('sha256', storageConfig.signingSecret)
+    .update(`${key}:${expires}`)
+    .digest('hex');
+};
+
+// Build an expiring API URL for downloading a stored object
+export const createSignedUrl = (key: string, ttlSeconds: number = storageConfig.urlTtlSeconds): string => {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const signature = signStorageKey(key, expires);
+  const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+  return `/api/storage/${encodedKey}?expires=${expires}&signature=${signature}`;
+};
+
+export const verifySignedUrl = (key: string, expires: number, signature: string): boolean => {
+  if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  const expected = Buffer.from(signStorageKey(key, expires));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
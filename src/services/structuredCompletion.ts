@@ -0,0 +1,49 @@
+import logger from '../config/logger';
+import { AIServiceError } from '../middleware/errorHandler';
+import { getModelProvider } from './modelProvider';
+
+const MAX_ATTEMPTS = 3;
+
+export interface StructuredCompletionOptions<T> {
+  // Name used in logs and errors, e.g. "intent classification"
+  label: string;
+  systemPrompt: string;
+  input: string;
+  maxTokens?: number;
+  // Parse and validate the raw JSON reply; throw to trigger a retry
+  parse: (content: string) => T;
+}
+
+// Run a JSON-mode chat completion, retrying while the model returns malformed output
+export const completeStructured = async <T>(options: StructuredCompletionOptions<T>): Promise<T> => {
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const content = await getModelProvider().chat({
+      temperature: 0,
+      maxTokens: options.maxTokens || 500,
+      json: true,
+      messages: [
+        { role: 'system', content: options.systemPrompt },
+        { role: 'user', content: options.input }
+      ]
+    });
+
+    try {
+      return options.parse(content);
+    } catch (error) {
+      lastError = error;
+      logger.warn(`Malformed ${options.label} response`, {
+        attempt,
+        content,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  logger.error(`${options.label} failed after retries`, {
+    attempts: MAX_ATTEMPTS,
+    error: lastError instanceof Error ? lastError.message : String(lastError)
+  });
+  throw new AIServiceError(`Unable to complete ${options.label}`);
+};
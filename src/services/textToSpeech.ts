@@ -0,0 +1,134 @@
+import { elevenlabs, getVoiceConfig, ELEVENLABS_CONFIG } from '../config/elevenlabs';
+import { voiceConfig } from '../config/env';
+import logger from '../config/logger';
+import { getStorageBackend } from './storage';
+import { recordUsage } from './usage';
+import { wavHeader } from './audio';
+
+export type VoiceContext = keyof typeof ELEVENLABS_CONFIG.CONTEXTS;
+
+export interface SpeechOptions {
+  context: VoiceContext;
+  // Overrides the context's voice, e.g. with the guest's chosen voice
+  voiceId?: string;
+  // Speaking rate within ELEVENLABS_CONFIG.SPEED_RANGE; 1 is normal speed
+  speed?: number;
+}
+
+export interface SpeechResult {
+  audio: Buffer;
+  format: 'mp3' | 'wav';
+  contentType: string;
+  voiceId: string;
+  provider: string;
+  model: string;
+}
+
+export interface TextToSpeechProvider {
+  readonly name: string;
+  synthesize(text: string, options: SpeechOptions): Promise<SpeechResult>;
+}
+
+// ElevenLabs text-to-speech using the context-specific voice configuration
+export class ElevenLabsTextToSpeechProvider implements TextToSpeechProvider {
+  readonly name = 'elevenlabs';
+
+  async synthesize(text: string, options: SpeechOptions): Promise<SpeechResult> {
+    const voice = getVoiceConfig(options.context);
+    const voiceId = options.voiceId || voice.voice_id;
+
+    const audio = await elevenlabs.textToSpeech({
+      voice_id: voiceId,
+      text,
+      voice_settings: {
+        ...voice.settings,
+        use_speaker_boost: ELEVENLABS_CONFIG.VOICE_SETTINGS.use_speaker_boost,
+        ...(options.speed !== undefined && { speed: clampSpeed(options.speed) })
+      }
+    });
+
+    return {
+      audio,
+      format: 'mp3',
+      contentType: 'audio/mpeg',
+      voiceId,
+      provider: this.name,
+      model: ELEVENLABS_CONFIG.AUDIO_SETTINGS.model_id
+    };
+  }
+}
+
+export const clampSpeed = (speed: number): number => {
+  const { min, max } = ELEVENLABS_CONFIG.SPEED_RANGE;
+  return Math.min(max, Math.max(min, speed));
+};
+
+const LOCAL_SAMPLE_RATE = 8000;
+const LOCAL_MS_PER_WORD = 300;
+
+// Deterministic provider for tests and local development: a silent 8kHz mono
+// WAV whose length scales with the number of words in the text and the speed.
+export class LocalTextToSpeechProvider implements TextToSpeechProvider {
+  readonly name = 'local';
+
+  async synthesize(text: string, options: SpeechOptions): Promise<SpeechResult> {
+    const words = text.trim().split(/\s+/).filter(Boolean).length;
+    const msPerWord = LOCAL_MS_PER_WORD / clampSpeed(options.speed ?? 1);
+    const samples = Math.round((Math.max(words, 1) * msPerWord * LOCAL_SAMPLE_RATE) / 1000);
+    const dataSize = samples * 2;
+
+    const audio = Buffer.concat([wavHeader(dataSize, LOCAL_SAMPLE_RATE), Buffer.alloc(dataSize)]);
+
+    return {
+      audio,
+      format: 'wav',
+      contentType: 'audio/wav',
+      voiceId: options.voiceId || getVoiceConfig(options.context).voice_id,
+      provider: this.name,
+      model: this.name
+    };
+  }
+}
+
+let textToSpeechProvider: TextToSpeechProvider | null = null;
+
+export const getTextToSpeechProvider = (): TextToSpeechProvider => {
+  if (!textToSpeechProvider) {
+    textToSpeechProvider = voiceConfig.ttsProvider === 'elevenlabs'
+      ? new ElevenLabsTextToSpeechProvider()
+      : new LocalTextToSpeechProvider();
+    logger.info(`Text-to-speech provider: ${textToSpeechProvider.name}`);
+  }
+  return textToSpeechProvider;
+};
+
+// Allows tests to swap in a custom provider
+export const setTextToSpeechProvider = (provider: TextToSpeechProvider | null) => {
+  textToSpeechProvider = provider;
+};
+
+// The voice a response is spoken in; unset fields use the context's defaults
+export type VoiceSelection = Pick<SpeechOptions, 'voiceId' | 'speed'>;
+
+export interface StoredSpeech extends SpeechResult {
+  storageKey: string;
+}
+
+// Synthesize a voice session response and persist the audio to storage
+export const synthesizeSessionResponse = async (
+  sessionId: string,
+  text: string,
+  context: VoiceContext,
+  voice: VoiceSelection = {}
+): Promise<StoredSpeech> => {
+  const speech = await getTextToSpeechProvider().synthesize(text, { context, ...voice });
+  recordUsage({ kind: 'tts', provider: speech.provider, model: speech.model, characters: text.length });
+
+  const stored = await getStorageBackend().put(
+    `voice/responses/${sessionId}.${speech.format}`,
+    speech.audio,
+    speech.contentType
+  );
+
+  return { ...speech, storageKey: stored.key };
+};
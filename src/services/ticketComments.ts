@@ -0,0 +1,294 @@
+import { prisma } from '../config/prisma';
+import { CommentVisibility, Ticket, User, UserRole, WebSocketMessageType } from '../types';
+import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { getWebSocketService } from './websocket';
+import { redactText } from './redaction';
+
+export const MAX_COMMENT_LENGTH = 5000;
+export const MAX_MENTIONS = 20;
+
+// Everyone who may read internal notes
+const STAFF: UserRole[] = ['housekeeping', 'lobby_manager', 'general_manager', 'super_admin'];
+
+// Besides the author, these roles may delete a comment
+const MODERATORS: UserRole[] = ['lobby_manager', 'general_manager', 'super_admin'];
+
+export interface CommentInput {
+  body?: string;
+  visibility?: CommentVisibility;
+  // IDs of staff users to notify
+  mentions?: string[];
+}
+
+// Where a request came from, for the audit log
+export interface RequestContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+type CommentTicket = Ticket & { creator: { hotel_id: string | null } };
+
+const COMMENT_INCLUDE = {
+  author: {
+    select: {
+      id: true,
+      first_name: true,
+      last_name: true,
+      role: true
+    }
+  }
+};
+
+// Error message for an unusable comment, or null when it can be saved.
+// `partial` allows updates that change only some fields.
+export const validateCommentInput = (input: CommentInput, user: User, partial = false): string | null => {
+  const { body, visibility, mentions } = input;
+
+  if (body !== undefined || !partial) {
+    if (typeof body !== 'string' || !body.trim()) return 'body is required';
+    if (body.length > MAX_COMMENT_LENGTH) return `body must be at most ${MAX_COMMENT_LENGTH} characters`;
+  }
+  if (visibility !== undefined && !Object.values(CommentVisibility).includes(visibility)) {
+    return 'visibility must be internal or guest';
+  }
+  if (mentions !== undefined) {
+    if (!Array.isArray(mentions) || mentions.some(id => typeof id !== 'string')) {
+      return 'mentions must be an array of user IDs';
+    }
+    if (mentions.length > MAX_MENTIONS) return `At most ${MAX_MENTIONS} users can be mentioned`;
+  }
+  if (user.role === 'guest' && (visibility === CommentVisibility.internal || mentions?.length)) {
+    return 'Guests can only post replies visible to them, without mentions';
+  }
+  return null;
+};
+
+// Guests see the replies meant for them, without the staff mentions
+const forViewer = <T extends { mentions: string[] }>(comment: T, viewer: User) =>
+  viewer.role === 'guest' ? { ...comment, mentions: [] } : comment;
+
+// The staff users a comment mentions, checked to belong to the ticket's hotel
+const resolveMentions = async (ids: string[] | undefined, ticket: CommentTicket): Promise<string[]> => {
+  const unique = Array.from(new Set(ids || []));
+  if (unique.length === 0) return [];
+
+  const users = await prisma.user.findMany({
+    where: {
+      id: { in: unique },
+      active: true,
+      role: { not: 'guest' },
+      ...(ticket.creator.hotel_id && { OR: [{ hotel_id: ticket.creator.hotel_id }, { role: 'super_admin' }] })
+    },
+    select: { id: true }
+  });
+
+  const found = new Set(users.map(user => user.id));
+  const unknown = unique.filter(id => !found.has(id));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Mentions must be active staff of this hotel: ${unknown.join(', ')}`);
+  }
+
+  return unique;
+};
+
+const loadComment = async (commentId: string, ticketId: string) => {
+  const comment = await prisma.ticketComment.findFirst({
+    where: { id: commentId, ticket_id: ticketId, deleted_at: null }
+  });
+
+  if (!comment) {
+    throw new NotFoundError('Comment not found');
+  }
+
+  return comment;
+};
+
+export class TicketComments {
+  // A ticket's thread, oldest first. Guests only see guest-visible replies.
+  static async list(ticket: CommentTicket, viewer: User) {
+    const comments = await prisma.ticketComment.findMany({
+      where: {
+        ticket_id: ticket.id,
+        deleted_at: null,
+        ...(viewer.role === 'guest' && { visibility: CommentVisibility.guest })
+      },
+      include: COMMENT_INCLUDE,
+      orderBy: { created_at: 'asc' }
+    });
+
+    return comments.map(comment => forViewer(comment, viewer));
+  }
+
+  // Staff comments are internal unless marked for the guest; guests always reply visibly
+  static async add(ticket: CommentTicket, author: User, input: CommentInput) {
+    const mentions = await resolveMentions(input.mentions, ticket);
+    const visibility = author.role === 'guest'
+      ? CommentVisibility.guest
+      : input.visibility || CommentVisibility.internal;
+
+    const comment = await prisma.ticketComment.create({
+      data: {
+        ticket_id: ticket.id,
+        author_id: author.id,
+        body: redactText(input.body!.trim()).text,
+        visibility,
+        mentions
+      },
+      include: COMMENT_INCLUDE
+    });
+
+    await TicketComments.notifyMentions(ticket, comment, author, mentions);
+    TicketComments.broadcast(ticket, comment, 'comment_added');
+
+    return comment;
+  }
+
+  // Only the author edits a comment; the previous version goes to the audit log
+  static async update(ticket: CommentTicket, commentId: string, user: User, input: CommentInput, context: RequestContext = {}) {
+    const existing = await loadComment(commentId, ticket.id);
+
+    if (existing.author_id !== user.id) {
+      throw new AuthorizationError('Only the author can edit a comment');
+    }
+
+    const mentions = input.mentions !== undefined ? await resolveMentions(input.mentions, ticket) : existing.mentions;
+    const changes = {
+      ...(input.body !== undefined && { body: redactText(input.body.trim()).text }),
+      ...(input.visibility !== undefined && user.role !== 'guest' && { visibility: input.visibility }),
+      mentions
+    };
+
+    const comment = await prisma.ticketComment.update({
+      where: { id: commentId },
+      data: { ...changes, edited_at: new Date() },
+      include: COMMENT_INCLUDE
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        user_id: user.id,
+        action: 'ticket_comment_edited',
+        resource_type: 'ticket',
+        resource_id: ticket.id,
+        old_values: {
+          comment_id: commentId,
+          body: existing.body,
+          visibility: existing.visibility,
+          mentions: existing.mentions
+        },
+        new_values: { comment_id: commentId, ...changes },
+        ip_address: context.ip,
+        user_agent: context.userAgent
+      }
+    });
+
+    // Only users mentioned for the first time are notified
+    const added = mentions.filter(id => !existing.mentions.includes(id));
+    await TicketComments.notifyMentions(ticket, comment, user, added);
+    TicketComments.broadcast(ticket, comment, 'comment_updated', existing.visibility);
+
+    return comment;
+  }
+
+  // The author or a manager deletes a comment. It is hidden rather than removed,
+  // and its text is kept in the audit log.
+  static async remove(ticket: CommentTicket, commentId: string, user: User, context: RequestContext = {}) {
+    const existing = await loadComment(commentId, ticket.id);
+
+    if (existing.author_id !== user.id && !MODERATORS.includes(user.role)) {
+      throw new AuthorizationError('Only the author or a manager can delete a comment');
+    }
+
+    const comment = await prisma.ticketComment.update({
+      where: { id: commentId },
+      data: { deleted_at: new Date() },
+      include: COMMENT_INCLUDE
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        user_id: user.id,
+        action: 'ticket_comment_deleted',
+        resource_type: 'ticket',
+        resource_id: ticket.id,
+        old_values: {
+          comment_id: commentId,
+          author_id: existing.author_id,
+          body: existing.body,
+          visibility: existing.visibility
+        },
+        ip_address: context.ip,
+        user_agent: context.userAgent
+      }
+    });
+
+    TicketComments.broadcast(ticket, comment, 'comment_deleted');
+  }
+
+  // A notification for each newly mentioned user, stored and sent live
+  private static async notifyMentions(
+    ticket: CommentTicket,
+    comment: { id: string; body: string },
+    author: User,
+    mentions: string[]
+  ) {
+    const recipients = mentions.filter(id => id !== author.id);
+    if (recipients.length === 0) return;
+
+    const title = `${author.first_name} ${author.last_name} mentioned you on "${ticket.title}"`;
+    await prisma.notification.createMany({
+      data: recipients.map(userId => ({
+        user_id: userId,
+        title,
+        message: comment.body,
+        type: 'info',
+        ticket_id: ticket.id,
+        metadata: { comment_id: comment.id }
+      }))
+    });
+
+    const wsService = getWebSocketService();
+    if (wsService) {
+      recipients.forEach(userId => wsService.broadcastToUser(userId, {
+        type: WebSocketMessageType.NOTIFICATION,
+        payload: { ticket_id: ticket.id, comment, action: 'comment_mention' },
+        timestamp: new Date().toISOString()
+      }));
+    }
+  }
+
+  // Verified staff of the ticket's hotel get every comment; the guest gets the
+  // replies meant for them. Deleted comments, and replies made internal, go out
+  // as their ID only.
+  private static broadcast(
+    ticket: CommentTicket,
+    comment: { id: string; visibility: CommentVisibility; mentions: string[] },
+    action: 'comment_added' | 'comment_updated' | 'comment_deleted',
+    previousVisibility: CommentVisibility = comment.visibility
+  ) {
+    const wsService = getWebSocketService();
+    if (!wsService) return;
+
+    const removed = { id: comment.id };
+
+    wsService.broadcastToHotelStaff(ticket.creator.hotel_id, STAFF, {
+      type: WebSocketMessageType.TICKET_UPDATE,
+      payload: { ticket_id: ticket.id, comment: action === 'comment_deleted' ? removed : comment, action },
+      timestamp: new Date().toISOString()
+    });
+
+    const guestSees = comment.visibility === CommentVisibility.guest || previousVisibility === CommentVisibility.guest;
+    if (guestSees) {
+      const hidden = action === 'comment_deleted' || comment.visibility !== CommentVisibility.guest;
+      wsService.broadcastToUser(ticket.created_by, {
+        type: WebSocketMessageType.TICKET_UPDATE,
+        payload: {
+          ticket_id: ticket.id,
+          comment: hidden ? removed : { ...comment, mentions: [] },
+          action: hidden ? 'comment_deleted' : action
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import { OPENAI_CONFIG } from '../config/openai';
+import logger from '../config/logger';
+import { completeStructured } from './structuredCompletion';
+import { isAIFailure } from './modelProvider';
+import { RuleBasedClassifier } from './ruleBasedClassifier';
+import { Department, IntentClassification, TicketGeneration, TicketPriority } from '../types';
+
+// Free-form department names the model tends to produce
+const DEPARTMENT_ALIASES: Record<string, Department> = {
+  housekeeping: Department.housekeeping,
+  cleaning: Department.housekeeping,
+  laundry: Department.housekeeping,
+  maintenance: Department.maintenance,
+  engineering: Department.maintenance,
+  facilities: Department.maintenance,
+  front_desk: Department.front_desk,
+  frontdesk: Department.front_desk,
+  reception: Department.front_desk,
+  guest_relations: Department.front_desk,
+  concierge: Department.concierge,
+  guest_services: Department.concierge,
+  room_service: Department.room_service,
+  in_room_dining: Department.room_service,
+  food_and_beverage: Department.room_service,
+  dining: Department.room_service
+};
+
+const PRIORITY_ALIASES: Record<string, TicketPriority> = {
+  low: TicketPriority.low,
+  normal: TicketPriority.medium,
+  medium: TicketPriority.medium,
+  high: TicketPriority.high,
+  urgent: TicketPriority.urgent,
+  critical: TicketPriority.urgent,
+  emergency: TicketPriority.urgent
+};
+
+const PRIORITY_ORDER: TicketPriority[] = [
+  TicketPriority.low,
+  TicketPriority.medium,
+  TicketPriority.high,
+  TicketPriority.urgent
+];
+
+// Raise a priority to at least the given minimum
+export const atLeastPriority = (priority: TicketPriority, minimum: TicketPriority): TicketPriority =>
+  PRIORITY_ORDER.indexOf(priority) >= PRIORITY_ORDER.indexOf(minimum) ? priority : minimum;
+
+const DEFAULT_ESTIMATED_TIME = 30; // minutes
+const MAX_ESTIMATED_TIME = 24 * 60;
+
+const normalizeKey = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// Map an AI department string onto the Prisma enum, or null when unknown
+export const mapDepartment = (value: unknown): Department | null =>
+  typeof value === 'string' ? DEPARTMENT_ALIASES[normalizeKey(value)] || null : null;
+
+export const mapPriority = (value: unknown): TicketPriority | null =>
+  typeof value === 'string' ? PRIORITY_ALIASES[normalizeKey(value)] || null : null;
+
+const ticketGenerationSchema = z.object({
+  title: z.string().trim().min(1).max(120),
+  description: z.string().trim().min(1),
+  priority: z.string().optional(),
+  department: z.string().optional(),
+  // Accept 30 or "30 minutes"
+  estimated_completion: z.union([z.number(), z.string()]).optional(),
+  required_resources: z.array(z.string()).default([])
+});
+
+export interface GeneratedTicket extends TicketGeneration {
+  department: Department;
+  priority: TicketPriority;
+}
+
+const parseMinutes = (value: number | string | undefined): number => {
+  const minutes = typeof value === 'number' ? value : parseInt(value || '', 10);
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    return DEFAULT_ESTIMATED_TIME;
+  }
+  return Math.min(Math.round(minutes), MAX_ESTIMATED_TIME);
+};
+
+// Validate the model reply, falling back on the classification for unknown department/priority values
+export const parseTicketGeneration = (
+  content: string,
+  classification: IntentClassification
+): GeneratedTicket => {
+  const parsed = ticketGenerationSchema.parse(JSON.parse(content));
+
+  let department = mapDepartment(parsed.department);
+  if (!department) {
+    department = mapDepartment(classification.department) || Department.front_desk;
+    logger.warn('Unknown department from ticket generator, using fallback', {
+      received: parsed.department,
+      fallback: department
+    });
+  }
+
+  const priority = mapPriority(parsed.priority)
+    || mapPriority(classification.priority)
+    || TicketPriority.medium;
+
+  return {
+    title: parsed.title,
+    description: parsed.description,
+    department,
+    priority,
+    estimated_completion: parseMinutes(parsed.estimated_completion),
+    required_resources: parsed.required_resources
+  };
+};
+
+export class TicketGenerator {
+  // Turn a guest request into a structured ticket with the TICKET_GENERATOR prompt.
+  // Requests the keyword classifier handled, or that arrive while the model is
+  // unavailable, get a ticket built from the classification instead.
+  static async generate(
+    transcript: string,
+    classification: IntentClassification,
+    systemPrompt: string = OPENAI_CONFIG.SYSTEM_PROMPTS.TICKET_GENERATOR
+  ): Promise<GeneratedTicket> {
+    if (classification.source === 'rules') {
+      return RuleBasedClassifier.generateTicket(transcript, classification);
+    }
+
+    try {
+      return await completeStructured({
+        label: 'ticket generation',
+        systemPrompt,
+        input: JSON.stringify({ request: transcript, classification }),
+        parse: (content) => parseTicketGeneration(content, classification)
+      });
+    } catch (error) {
+      if (!isAIFailure(error)) {
+        throw error;
+      }
+      logger.warn('Ticket generation unavailable, using rule-based fallback', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return RuleBasedClassifier.generateTicket(transcript, classification);
+    }
+  }
+}
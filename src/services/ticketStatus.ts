@@ -0,0 +1,148 @@
+import { prisma } from '../config/prisma';
+import { Ticket, TicketStatus, User, UserRole } from '../types';
+import { AuthorizationError, ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { redactText } from './redaction';
+
+const STAFF: UserRole[] = ['housekeeping', 'lobby_manager', 'general_manager', 'super_admin'];
+const MANAGERS: UserRole[] = ['lobby_manager', 'general_manager', 'super_admin'];
+
+// Allowed moves and who may make them. Guests act only on their own tickets:
+// they can withdraw a request nobody has started and reopen one that was not
+// actually resolved. Work under way is cancelled, and cancelled tickets
+// reopened, by a manager.
+export const TICKET_TRANSITIONS: Record<TicketStatus, Partial<Record<TicketStatus, UserRole[]>>> = {
+  [TicketStatus.pending]: {
+    [TicketStatus.in_progress]: STAFF,
+    [TicketStatus.cancelled]: [...STAFF, 'guest']
+  },
+  [TicketStatus.in_progress]: {
+    [TicketStatus.completed]: STAFF,
+    // Handed back to the queue
+    [TicketStatus.pending]: STAFF,
+    [TicketStatus.cancelled]: MANAGERS
+  },
+  [TicketStatus.completed]: {
+    [TicketStatus.pending]: [...STAFF, 'guest']
+  },
+  [TicketStatus.cancelled]: {
+    [TicketStatus.pending]: MANAGERS
+  }
+};
+
+const TICKET_INCLUDE = {
+  creator: {
+    select: {
+      id: true,
+      first_name: true,
+      last_name: true,
+      role: true
+    }
+  },
+  assignee: {
+    select: {
+      id: true,
+      first_name: true,
+      last_name: true,
+      role: true
+    }
+  }
+};
+
+// Statuses a user may move a ticket to from its current one
+export const allowedTransitions = (from: TicketStatus, role: UserRole): TicketStatus[] =>
+  (Object.entries(TICKET_TRANSITIONS[from]) as [TicketStatus, UserRole[]][])
+    .filter(([, roles]) => roles.includes(role))
+    .map(([to]) => to);
+
+// Load a ticket the user may see: guests their own, staff their hotel's, super admins any
+export const loadAccessibleTicket = async (ticketId: string, user: User) => {
+  const ticket = await prisma.ticket.findUnique({
+    where: { id: ticketId },
+    include: { creator: { select: { hotel_id: true } } }
+  });
+
+  if (!ticket) {
+    throw new NotFoundError('Ticket not found');
+  }
+  if (user.role === 'guest' && ticket.created_by !== user.id) {
+    throw new AuthorizationError('Access denied');
+  }
+  if (user.role !== 'guest' && user.role !== 'super_admin' && ticket.creator.hotel_id !== user.hotel_id) {
+    throw new NotFoundError('Ticket not found');
+  }
+
+  return ticket;
+};
+
+export class TicketWorkflow {
+  // Move a ticket to a new status if the state machine and the user's role allow
+  // it, recording the change in the ticket's status history
+  static async transition(
+    ticket: Ticket,
+    to: TicketStatus,
+    user: User,
+    options: { reason?: string; data?: Record<string, unknown> } = {}
+  ) {
+    const from = ticket.status;
+
+    if (from === to) {
+      throw new ConflictError(`Ticket is already ${to}`);
+    }
+    if (!TICKET_TRANSITIONS[from][to]) {
+      const next = Object.keys(TICKET_TRANSITIONS[from]).join(', ');
+      throw new ConflictError(`A ${from} ticket cannot be moved to ${to}; allowed: ${next}`);
+    }
+    if (!allowedTransitions(from, user.role).includes(to)) {
+      throw new AuthorizationError(`Your role cannot move a ${from} ticket to ${to}`);
+    }
+
+    // The update only applies while the ticket is still in the status the checks
+    // saw, so two concurrent changes cannot both go through. completed_at belongs
+    // to the current completion; earlier ones stay in the history.
+    return prisma.$transaction(async (tx) => {
+      const moved = await tx.ticket.updateMany({
+        where: { id: ticket.id, status: from },
+        data: {
+          ...options.data,
+          status: to,
+          completed_at: to === TicketStatus.completed ? new Date() : null,
+          updated_at: new Date()
+        }
+      });
+
+      if (moved.count === 0) {
+        throw new ConflictError('Ticket status was changed by someone else; reload and try again');
+      }
+
+      await tx.ticketStatusHistory.create({
+        data: {
+          ticket_id: ticket.id,
+          from_status: from,
+          to_status: to,
+          changed_by: user.id,
+          reason: options.reason ? redactText(options.reason).text : null
+        }
+      });
+
+      return tx.ticket.findUniqueOrThrow({ where: { id: ticket.id }, include: TICKET_INCLUDE });
+    });
+  }
+
+  // A ticket's status changes, oldest first, with who made each one
+  static async history(ticketId: string) {
+    return prisma.ticketStatusHistory.findMany({
+      where: { ticket_id: ticketId },
+      include: {
+        actor: {
+          select: {
+            id: true,
+            first_name: true,
+            last_name: true,
+            role: true
+          }
+        }
+      },
+      orderBy: { created_at: 'asc' }
+    });
+  }
+}
@@ -0,0 +1,108 @@
+import { voiceConfig } from '../config/env';
+import logger from '../config/logger';
+import { VoiceRequest } from '../types';
+import { getModelProvider } from './modelProvider';
+import { recordUsage, estimateAudioSeconds } from './usage';
+
+export type AudioFormat = VoiceRequest['format'];
+
+export const SUPPORTED_AUDIO_FORMATS: AudioFormat[] = ['wav', 'mp3', 'webm'];
+
+const AUDIO_MIME_TYPES: Record<AudioFormat, string> = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  webm: 'audio/webm'
+};
+
+export interface TranscriptionOptions {
+  format: AudioFormat;
+  language?: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  // Only known when the caller named the language; otherwise detect it from the text
+  language?: string;
+  provider: string;
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+// Whisper speech-to-text via the AI model provider
+export class WhisperTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai';
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    const text = await getModelProvider().transcribe(audio, {
+      filename: `voice-input.${options.format}`,
+      contentType: AUDIO_MIME_TYPES[options.format],
+      language: options.language
+    });
+
+    return {
+      text: text.trim(),
+      language: options.language,
+      provider: this.name
+    };
+  }
+}
+
+// Deterministic provider for tests and local development. Clips whose bytes are
+// plain UTF-8 text are "transcribed" to that text, which lets the evaluation
+// script feed it scripted clips directly. The API never gets that far with text:
+// inspectAudio rejects it with a 415, so real uploads get the placeholder.
+export class LocalTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'local';
+
+  async transcribe(audio: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
+    const decoded = audio.toString('utf8');
+    const isText = decoded.length > 0 && !decoded.includes('\uFFFD') && /^[\P{C}\s]+$/u.test(decoded);
+
+    recordUsage({
+      kind: 'transcription',
+      provider: this.name,
+      model: this.name,
+      audio_seconds: estimateAudioSeconds(audio, AUDIO_MIME_TYPES[options.format])
+    });
+
+    return {
+      text: isText
+        ? decoded.trim()
+        : `Local transcript of ${audio.length} byte ${options.format} clip`,
+      language: options.language,
+      provider: this.name
+    };
+  }
+}
+
+let transcriptionProvider: TranscriptionProvider | null = null;
+
+export const getTranscriptionProvider = (): TranscriptionProvider => {
+  if (!transcriptionProvider) {
+    transcriptionProvider = voiceConfig.transcriptionProvider === 'openai'
+      ? new WhisperTranscriptionProvider()
+      : new LocalTranscriptionProvider();
+    logger.info(`Transcription provider: ${transcriptionProvider.name}`);
+  }
+  return transcriptionProvider;
+};
+
+// Allows tests to swap in a custom provider
+export const setTranscriptionProvider = (provider: TranscriptionProvider | null) => {
+  transcriptionProvider = provider;
+};
+
+// Decode a base64 (optionally data-URL prefixed) audio payload
+export const decodeAudioData = (audioData: string): Buffer | null => {
+  const base64 = audioData.replace(/^data:[^;]+;base64,/, '').replace(/\s/g, '');
+
+  if (base64.length === 0 || !/^[A-Za-z0-9+/]+={0,2}$/.test(base64)) {
+    return null;
+  }
+
+  const audio = Buffer.from(base64, 'base64');
+  return audio.length > 0 ? audio : null;
+};
@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { OPENAI_CONFIG } from '../config/openai';
+import { voiceConfig } from '../config/env';
+import logger from '../config/logger';
+import { completeStructured } from './structuredCompletion';
+import { getModelProvider, isAIFailure } from './modelProvider';
+
+export interface TranslationProvider {
+  readonly name: string;
+  // ISO 639-1 code, or null when the language cannot be told
+  detectLanguage(text: string): Promise<string | null>;
+  translate(text: string, targetLanguage: string): Promise<string>;
+}
+
+const languageSchema = z.object({
+  language: z.string().min(2)
+});
+
+// Language detection and translation with the chat model
+export class ModelTranslationProvider implements TranslationProvider {
+  readonly name = 'openai';
+
+  async detectLanguage(text: string): Promise<string | null> {
+    const { language } = await completeStructured({
+      label: 'language detection',
+      systemPrompt: OPENAI_CONFIG.SYSTEM_PROMPTS.LANGUAGE_DETECTOR,
+      input: text,
+      maxTokens: 20,
+      parse: content => languageSchema.parse(JSON.parse(content))
+    });
+
+    return baseLanguage(language);
+  }
+
+  async translate(text: string, targetLanguage: string): Promise<string> {
+    const translation = await getModelProvider().chat({
+      temperature: 0,
+      messages: [
+        { role: 'system', content: OPENAI_CONFIG.SYSTEM_PROMPTS.TRANSLATOR },
+        { role: 'user', content: `Target language: ${targetLanguage}\n\n${text}` }
+      ]
+    });
+
+    return translation.trim() || text;
+  }
+}
+
+// Common function words of the languages guests most often speak
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'my', 'please', 'can', 'you', 'have', 'need', 'with', 'room', 'some', 'there'],
+  es: ['el', 'la', 'los', 'las', 'es', 'mi', 'por', 'favor', 'puede', 'necesito', 'una', 'con', 'habitación', 'hay'],
+  fr: ['le', 'la', 'les', 'est', 'mon', 'ma', 'vous', 'pouvez', 'besoin', 'une', 'avec', 'chambre', 'il', 'plaît'],
+  de: ['der', 'die', 'das', 'ist', 'mein', 'bitte', 'können', 'sie', 'brauche', 'eine', 'mit', 'zimmer', 'ich'],
+  it: ['il', 'la', 'gli', 'è', 'mio', 'per', 'favore', 'può', 'bisogno', 'una', 'con', 'camera', 'ho'],
+  pt: ['o', 'os', 'as', 'é', 'meu', 'por', 'favor', 'pode', 'preciso', 'uma', 'com', 'quarto', 'tem']
+};
+
+// Deterministic provider for tests and local development: stopword-based
+// detection, and translation that returns the text unchanged
+export class LocalTranslationProvider implements TranslationProvider {
+  readonly name = 'local';
+
+  async detectLanguage(text: string): Promise<string | null> {
+    return detectByStopwords(text);
+  }
+
+  async translate(text: string): Promise<string> {
+    return text;
+  }
+}
+
+const detectByStopwords = (text: string): string | null => {
+  const words = text.toLowerCase().match(/[\p{L}]+/gu) || [];
+
+  const [best, runnerUp] = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => ({
+      language,
+      hits: words.filter(word => stopwords.includes(word)).length
+    }))
+    .sort((a, b) => b.hits - a.hits);
+
+  return best.hits > 0 && best.hits > runnerUp.hits ? best.language : null;
+};
+
+// "es-MX" and "es" are the same language for our purposes
+export const baseLanguage = (language: string): string => language.toLowerCase().split(/[-_]/)[0];
+
+export const isSameLanguage = (a: string, b: string): boolean => baseLanguage(a) === baseLanguage(b);
+
+let translationProvider: TranslationProvider | null = null;
+
+export const getTranslationProvider = (): TranslationProvider => {
+  if (!translationProvider) {
+    translationProvider = voiceConfig.translationProvider === 'openai'
+      ? new ModelTranslationProvider()
+      : new LocalTranslationProvider();
+    logger.info(`Translation provider: ${translationProvider.name}`);
+  }
+  return translationProvider;
+};
+
+// Allows tests to swap in a custom provider
+export const setTranslationProvider = (provider: TranslationProvider | null) => {
+  translationProvider = provider;
+};
+
+// Language of a guest's message, falling back to stopwords when the model is
+// unavailable and to `fallback` (e.g. the guest's preferred language) when unsure
+export const detectLanguage = async (
+  text: string,
+  fallback: string = 'en',
+  provider: TranslationProvider = getTranslationProvider()
+): Promise<string> => {
+  try {
+    return (await provider.detectLanguage(text)) || fallback;
+  } catch (error) {
+    if (!isAIFailure(error)) throw error;
+    return detectByStopwords(text) || fallback;
+  }
+};
+
+// Translate between guest and staff. An untranslated message is better than a
+// lost request, so AI failures return the original text.
+export const translateText = async (
+  text: string,
+  from: string,
+  to: string,
+  provider: TranslationProvider = getTranslationProvider()
+): Promise<string> => {
+  if (!text || isSameLanguage(from, to)) return text;
+
+  try {
+    return await provider.translate(text, baseLanguage(to));
+  } catch (error) {
+    if (!isAIFailure(error)) throw error;
+    logger.warn('Translation unavailable, keeping original text', { from, to });
+    return text;
+  }
+};
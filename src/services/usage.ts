@@ -0,0 +1,286 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { prisma } from '../config/prisma';
+import { usageConfig } from '../config/env';
+import logger from '../config/logger';
+import { UsageBudget } from '../types';
+
+export type UsageKind = 'chat' | 'embedding' | 'transcription' | 'tts';
+
+// One metered model call
+export interface UsageEntry {
+  kind: UsageKind;
+  provider: string;
+  model: string;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  audio_seconds?: number;
+  characters?: number;
+}
+
+export interface UsageTotals {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  audio_seconds: number;
+  characters: number;
+  cost: number;
+}
+
+export interface BudgetStatus {
+  hotel_id: string;
+  budget: UsageBudget | null;
+  month_start: string;
+  month_to_date: { total_tokens: number; cost: number };
+  exceeded: boolean;
+}
+
+// Budget checks run on every voice request, so the result is reused briefly
+const BUDGET_CACHE_TTL_MS = 60 * 1000;
+
+const meters = new AsyncLocalStorage<UsageEntry[]>();
+
+const budgetCache = new Map<string, { exceeded: boolean; checkedAt: number }>();
+
+// Collects the usage of every model call made while run() is in progress,
+// including calls deep inside the services it awaits
+export class UsageMeter {
+  constructor(readonly entries: UsageEntry[] = []) {}
+
+  run<T>(fn: () => Promise<T>): Promise<T> {
+    return meters.run(this.entries, fn);
+  }
+}
+
+// Called by providers after each call; a no-op outside a meter
+export const recordUsage = (entry: UsageEntry) => {
+  meters.getStore()?.push(entry);
+};
+
+// Rough duration for metering: exact for PCM WAV, otherwise from typical bitrates
+export const estimateAudioSeconds = (audio: Buffer, contentType: string): number => {
+  if (audio.length > 44 && audio.toString('ascii', 0, 4) === 'RIFF' && audio.toString('ascii', 8, 12) === 'WAVE') {
+    const byteRate = audio.readUInt32LE(28);
+    if (byteRate > 0) return (audio.length - 44) / byteRate;
+  }
+
+  const bytesPerSecond = contentType === 'audio/mpeg' ? 16000 : 4000;
+  return audio.length / bytesPerSecond;
+};
+
+// Estimated USD cost; local providers are free
+export const estimateCost = (entry: UsageEntry): number => {
+  if (entry.provider === 'local') return 0;
+
+  const { pricing } = usageConfig;
+  const promptTokens = entry.prompt_tokens || 0;
+
+  switch (entry.kind) {
+    case 'chat':
+      return (promptTokens * pricing.promptTokensPer1k + (entry.completion_tokens || 0) * pricing.completionTokensPer1k) / 1000;
+    case 'embedding':
+      return (promptTokens * pricing.embeddingTokensPer1k) / 1000;
+    case 'transcription':
+      return ((entry.audio_seconds || 0) / 60) * pricing.audioMinute;
+    case 'tts':
+      return ((entry.characters || 0) * pricing.ttsCharactersPer1k) / 1000;
+  }
+};
+
+const emptyTotals = (): UsageTotals => ({
+  prompt_tokens: 0,
+  completion_tokens: 0,
+  total_tokens: 0,
+  audio_seconds: 0,
+  characters: 0,
+  cost: 0
+});
+
+const addUsage = (totals: UsageTotals, usage: Omit<UsageTotals, 'total_tokens'>) => {
+  totals.prompt_tokens += usage.prompt_tokens;
+  totals.completion_tokens += usage.completion_tokens;
+  totals.total_tokens += usage.prompt_tokens + usage.completion_tokens;
+  totals.audio_seconds += usage.audio_seconds;
+  totals.characters += usage.characters;
+  totals.cost += usage.cost;
+};
+
+const rounded = (totals: UsageTotals): UsageTotals => ({
+  ...totals,
+  audio_seconds: Math.round(totals.audio_seconds * 10) / 10,
+  cost: Math.round(totals.cost * 10000) / 10000
+});
+
+const startOfMonth = (date: Date = new Date()) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+export class UsageService {
+  // Store a request's metered calls; metering must never fail the request
+  static async record(entries: UsageEntry[], context: { voiceSessionId?: string | null; hotelId?: string | null }) {
+    if (entries.length === 0) return;
+
+    try {
+      await prisma.modelUsage.createMany({
+        data: entries.map(entry => ({
+          voice_session_id: context.voiceSessionId || null,
+          hotel_id: context.hotelId || null,
+          kind: entry.kind,
+          provider: entry.provider,
+          model: entry.model,
+          prompt_tokens: entry.prompt_tokens || 0,
+          completion_tokens: entry.completion_tokens || 0,
+          audio_seconds: entry.audio_seconds || 0,
+          characters: entry.characters || 0,
+          cost: estimateCost(entry)
+        }))
+      });
+    } catch (error) {
+      logger.error('Failed to record model usage', {
+        voiceSessionId: context.voiceSessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // Usage per hotel and per UTC day, with each hotel's budget status
+  static async report(hotelId: string | null, from: Date, to: Date) {
+    const rows = await prisma.modelUsage.findMany({
+      where: {
+        created_at: { gte: from, lte: to },
+        ...(hotelId && { hotel_id: hotelId })
+      },
+      select: {
+        hotel_id: true,
+        voice_session_id: true,
+        kind: true,
+        model: true,
+        prompt_tokens: true,
+        completion_tokens: true,
+        audio_seconds: true,
+        characters: true,
+        cost: true,
+        created_at: true
+      }
+    });
+
+    const totals = emptyTotals();
+    const hotels = new Map<string, {
+      totals: UsageTotals;
+      sessions: Set<string>;
+      byDay: Map<string, UsageTotals>;
+      byModel: Map<string, UsageTotals & { kind: string; model: string }>;
+    }>();
+
+    for (const row of rows) {
+      const hotelKey = row.hotel_id || 'unassigned';
+      const hotel = hotels.get(hotelKey) || {
+        totals: emptyTotals(),
+        sessions: new Set<string>(),
+        byDay: new Map(),
+        byModel: new Map()
+      };
+      hotels.set(hotelKey, hotel);
+
+      const day = row.created_at.toISOString().slice(0, 10);
+      const dayTotals = hotel.byDay.get(day) || emptyTotals();
+      hotel.byDay.set(day, dayTotals);
+
+      const modelKey = `${row.kind}:${row.model}`;
+      const modelTotals = hotel.byModel.get(modelKey) || { ...emptyTotals(), kind: row.kind, model: row.model };
+      hotel.byModel.set(modelKey, modelTotals);
+
+      for (const target of [totals, hotel.totals, dayTotals, modelTotals]) {
+        addUsage(target, row);
+      }
+      if (row.voice_session_id) hotel.sessions.add(row.voice_session_id);
+    }
+
+    const budgetStatuses = await Promise.all(
+      Array.from(hotels.keys())
+        .filter(key => key !== 'unassigned')
+        .map(key => UsageService.getBudgetStatus(key))
+    );
+
+    return {
+      period: { from: from.toISOString(), to: to.toISOString() },
+      totals: rounded(totals),
+      hotels: Array.from(hotels.entries()).map(([key, hotel]) => ({
+        hotel_id: key === 'unassigned' ? null : key,
+        voice_sessions: hotel.sessions.size,
+        totals: rounded(hotel.totals),
+        budget: budgetStatuses.find(status => status.hotel_id === key) || null,
+        by_day: Array.from(hotel.byDay.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([date, dayTotals]) => ({ date, ...rounded(dayTotals) })),
+        by_model: Array.from(hotel.byModel.values()).map(modelTotals => ({
+          ...modelTotals,
+          ...rounded(modelTotals)
+        }))
+      }))
+    };
+  }
+
+  static async getBudgetStatus(hotelId: string): Promise<BudgetStatus> {
+    const monthStart = startOfMonth();
+
+    const [budget, usage] = await Promise.all([
+      prisma.usageBudget.findUnique({ where: { hotel_id: hotelId } }),
+      prisma.modelUsage.aggregate({
+        where: { hotel_id: hotelId, created_at: { gte: monthStart } },
+        _sum: { prompt_tokens: true, completion_tokens: true, cost: true }
+      })
+    ]);
+
+    const totalTokens = (usage._sum.prompt_tokens || 0) + (usage._sum.completion_tokens || 0);
+    const cost = usage._sum.cost || 0;
+    const exceeded = !!budget && (
+      (budget.monthly_token_limit !== null && totalTokens >= budget.monthly_token_limit)
+      || (budget.monthly_cost_limit !== null && cost >= budget.monthly_cost_limit)
+    );
+
+    budgetCache.set(hotelId, { exceeded, checkedAt: Date.now() });
+
+    return {
+      hotel_id: hotelId,
+      budget,
+      month_start: monthStart.toISOString(),
+      month_to_date: { total_tokens: totalTokens, cost: Math.round(cost * 10000) / 10000 },
+      exceeded
+    };
+  }
+
+  // Whether the hotel has used up this month's budget. Over-budget hotels are
+  // handled by the keyword rules instead of the model (see VoicePipeline.process).
+  static async isOverBudget(hotelId?: string | null): Promise<boolean> {
+    if (!hotelId) return false;
+
+    const cached = budgetCache.get(hotelId);
+    if (cached && Date.now() - cached.checkedAt < BUDGET_CACHE_TTL_MS) {
+      return cached.exceeded;
+    }
+
+    try {
+      return (await UsageService.getBudgetStatus(hotelId)).exceeded;
+    } catch (error) {
+      logger.error('Failed to check usage budget', {
+        hotelId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+
+  // Set or clear (null) a hotel's monthly limits
+  static async setBudget(
+    hotelId: string,
+    limits: { monthly_token_limit?: number | null; monthly_cost_limit?: number | null },
+    updatedBy: string
+  ) {
+    const budget = await prisma.usageBudget.upsert({
+      where: { hotel_id: hotelId },
+      create: { hotel_id: hotelId, ...limits, updated_by: updatedBy },
+      update: { ...limits, updated_by: updatedBy }
+    });
+
+    budgetCache.delete(hotelId);
+    return budget;
+  }
+}
@@ -0,0 +1,211 @@
+import { prisma } from '../config/prisma';
+import { SessionChannel } from '../types';
+
+export interface AnalyticsFilters {
+  // null for every hotel (super admins only)
+  hotelId: string | null;
+  from: Date;
+  to: Date;
+  channel?: SessionChannel;
+}
+
+export type VolumeInterval = 'hour' | 'day';
+
+const INTERVAL_MS: Record<VolumeInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+
+// Keeps a volume series to a size a chart can show
+export const MAX_VOLUME_BUCKETS = 2000;
+
+const CONFIDENCE_BUCKETS = 10;
+
+const sessionScope = (filters: AnalyticsFilters) => ({
+  created_at: { gte: filters.from, lte: filters.to },
+  ...(filters.hotelId && { user: { hotel_id: filters.hotelId } }),
+  ...(filters.channel && { channel: filters.channel })
+});
+
+// Percentage with one decimal
+const share = (count: number, total: number) => total ? Math.round((count / total) * 1000) / 10 : 0;
+
+const average = (values: number[]) =>
+  values.length ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length ? sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))] : null;
+
+// Counts per key, largest first, with each key's share of the total
+const breakdown = <T>(items: T[], keyOf: (item: T) => string, label: string) => {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const key = keyOf(item);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .map(([key, count]) => ({ [label]: key, count, share: share(count, items.length) }));
+};
+
+const intentOf = (classification: unknown): string =>
+  (classification as { intent?: string } | null)?.intent || 'unknown';
+
+export class VoiceAnalytics {
+  // How the assistant performs over a period: volume by hour of day, processing
+  // time, confidence, intents, languages, ticket conversion and misroutes.
+  // Hours are UTC.
+  static async summary(filters: AnalyticsFilters) {
+    const sessions = await prisma.voiceSession.findMany({
+      where: sessionScope(filters),
+      select: {
+        created_at: true,
+        processing_time: true,
+        confidence_score: true,
+        intent_classification: true,
+        language: true,
+        channel: true,
+        status: true,
+        _count: { select: { tickets: true } }
+      }
+    });
+
+    const total = sessions.length;
+    const processingTimes = sessions
+      .map(session => session.processing_time)
+      .filter((time): time is number => time !== null)
+      .sort((a, b) => a - b);
+    const converted = sessions.filter(session => session._count.tickets > 0).length;
+
+    const byHour = Array.from({ length: 24 }, (_, hour) => ({ hour, sessions: 0 }));
+    for (const session of sessions) {
+      byHour[session.created_at.getUTCHours()].sessions++;
+    }
+
+    const confidence = Array.from({ length: CONFIDENCE_BUCKETS }, (_, index) => ({
+      from: index / CONFIDENCE_BUCKETS,
+      to: (index + 1) / CONFIDENCE_BUCKETS,
+      count: 0,
+      share: 0
+    }));
+    const scored = sessions.filter(session => session.confidence_score !== null);
+    for (const session of scored) {
+      const index = Math.min(CONFIDENCE_BUCKETS - 1, Math.max(0, Math.floor(session.confidence_score! * CONFIDENCE_BUCKETS)));
+      confidence[index].count++;
+    }
+    confidence.forEach(bucket => { bucket.share = share(bucket.count, scored.length); });
+
+    return {
+      period: { from: filters.from.toISOString(), to: filters.to.toISOString() },
+      hotel_id: filters.hotelId,
+      channel: filters.channel || null,
+      sessions: total,
+      processing_time_ms: {
+        average: average(processingTimes),
+        p50: percentile(processingTimes, 0.5),
+        p95: percentile(processingTimes, 0.95)
+      },
+      volume_by_hour: byHour,
+      confidence_distribution: confidence,
+      average_confidence: scored.length
+        ? Math.round((scored.reduce((sum, session) => sum + session.confidence_score!, 0) / scored.length) * 1000) / 1000
+        : null,
+      intents: breakdown(sessions, session => intentOf(session.intent_classification), 'intent'),
+      languages: breakdown(sessions, session => session.language, 'language'),
+      channels: breakdown(sessions, session => session.channel, 'channel'),
+      statuses: breakdown(sessions, session => session.status, 'status'),
+      ticket_conversion: {
+        sessions_with_ticket: converted,
+        rate: share(converted, total)
+      },
+      rerouted_tickets: await VoiceAnalytics.rerouteSummary(filters)
+    };
+  }
+
+  // Sessions and conversions per hour or day, including empty buckets
+  static async volume(filters: AnalyticsFilters, interval: VolumeInterval) {
+    const sessions = await prisma.voiceSession.findMany({
+      where: sessionScope(filters),
+      select: {
+        created_at: true,
+        processing_time: true,
+        _count: { select: { tickets: true } }
+      }
+    });
+
+    const step = INTERVAL_MS[interval];
+    const start = Math.floor(filters.from.getTime() / step) * step;
+    const buckets = new Map<number, { sessions: number; converted: number; processingTimes: number[] }>();
+    for (let time = start; time <= filters.to.getTime(); time += step) {
+      buckets.set(time, { sessions: 0, converted: 0, processingTimes: [] });
+    }
+
+    for (const session of sessions) {
+      const bucket = buckets.get(Math.floor(session.created_at.getTime() / step) * step);
+      if (!bucket) continue;
+      bucket.sessions++;
+      if (session._count.tickets > 0) bucket.converted++;
+      if (session.processing_time !== null) bucket.processingTimes.push(session.processing_time);
+    }
+
+    return {
+      period: { from: filters.from.toISOString(), to: filters.to.toISOString() },
+      interval,
+      buckets: Array.from(buckets.entries()).map(([time, bucket]) => ({
+        start: new Date(time).toISOString(),
+        sessions: bucket.sessions,
+        sessions_with_ticket: bucket.converted,
+        avg_processing_time_ms: average(bucket.processingTimes)
+      }))
+    };
+  }
+
+  // Voice tickets staff later moved to another department, a sign the request
+  // was misclassified
+  static async reroutedTickets(filters: AnalyticsFilters) {
+    const tickets = await prisma.ticket.findMany({
+      where: {
+        voice_session: { is: sessionScope(filters) },
+        original_department: { not: null }
+      },
+      select: {
+        id: true,
+        title: true,
+        department: true,
+        original_department: true,
+        created_at: true,
+        updated_at: true,
+        voice_session: {
+          select: { id: true, intent_classification: true, confidence_score: true, language: true, channel: true }
+        }
+      },
+      orderBy: { created_at: 'desc' }
+    });
+
+    return tickets
+      .filter(ticket => ticket.original_department !== ticket.department)
+      .map(({ voice_session: session, ...ticket }) => ({
+        ...ticket,
+        voice_session_id: session?.id || null,
+        intent: intentOf(session?.intent_classification),
+        confidence: session?.confidence_score ?? null,
+        language: session?.language || null,
+        channel: session?.channel || null
+      }));
+  }
+
+  private static async rerouteSummary(filters: AnalyticsFilters) {
+    const [voiceTickets, rerouted] = await Promise.all([
+      prisma.ticket.count({ where: { voice_session: { is: sessionScope(filters) } } }),
+      VoiceAnalytics.reroutedTickets(filters)
+    ]);
+
+    return {
+      tickets: voiceTickets,
+      rerouted: rerouted.length,
+      rate: share(rerouted.length, voiceTickets),
+      by_route: breakdown(rerouted, ticket => `${ticket.original_department}->${ticket.department}`, 'route'),
+      by_intent: breakdown(rerouted, ticket => ticket.intent, 'intent')
+    };
+  }
+}
@@ -0,0 +1,693 @@
+import { prisma } from '../config/prisma';
+import logger from '../config/logger';
+import { voiceConfig } from '../config/env';
+import {
+  ConversationTurn,
+  Department,
+  DialogState,
+  IntentClassification,
+  SessionChannel,
+  User,
+  UserPreferences,
+  UserRole,
+  TicketPriority,
+  TicketStatus,
+  VoiceRequestOutcome,
+  VoiceSession,
+  VoiceSessionStatus,
+  WebSocketMessageType
+} from '../types';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  UnprocessableEntityError
+} from '../middleware/errorHandler';
+import { getWebSocketService } from './websocket';
+import { getTranscriptionProvider, AudioFormat, TranscriptionResult } from './transcription';
+import { inspectAudio, normalizeForTranscription } from './audio';
+import { IntentClassifier } from './intentClassifier';
+import { TicketGenerator, atLeastPriority } from './ticketGenerator';
+import { InquiryResponder } from './inquiryResponder';
+import { ConversationManager, parseConversationHistory, summarizeGuestRequest } from './conversation';
+import { synthesizeSessionResponse, VoiceContext } from './textToSpeech';
+import { VoicePreferences } from './voicePreferences';
+import { getStorageBackend, createSignedUrl, contentTypeForKey } from './storage';
+import { isAIFailure } from './modelProvider';
+import { PromptRegistry, recordPromptVersions } from './promptRegistry';
+import { RuleBasedClassifier } from './ruleBasedClassifier';
+import { UsageEntry, UsageMeter, UsageService } from './usage';
+import {
+  detectLanguage,
+  getTranslationProvider,
+  isSameLanguage,
+  LocalTranslationProvider,
+  translateText
+} from './translation';
+import { PIIVault, redactText } from './redaction';
+import { DuplicateMatch, DuplicateRequests } from './duplicateRequests';
+import {
+  detectEmergency,
+  emergencyClassification,
+  emergencyTicketFields,
+  EmergencyService,
+  EMERGENCY_RESPONSES
+} from './emergency';
+
+// How long a clarifying question stays open for an answer
+const CLARIFICATION_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Spoken responses are written in English and translated for the guest
+const RESPONSE_LANGUAGE = 'en';
+
+// Who hears about requests held for review or left unprocessed
+const REVIEWERS: UserRole[] = ['lobby_manager', 'general_manager', 'super_admin'];
+
+export interface VoicePipelineInput {
+  user: User;
+  // A recording, or a message typed in the text chat
+  audio?: Buffer;
+  format?: AudioFormat;
+  text?: string;
+  // Language the guest speaks, when known; otherwise it is detected
+  language?: string;
+  roomNumber?: string;
+  // Continue a session that is awaiting a clarification answer
+  sessionId?: string;
+  // When processing started, for processing_time; defaults to now
+  startedAt?: number;
+  // Transcription already produced by the caller (e.g. the streaming endpoint)
+  transcription?: TranscriptionResult;
+  // Usage already incurred for this request, e.g. a stream's partial transcripts
+  usage?: UsageEntry[];
+}
+
+// Ticket fields produced for a voice request, held in review_data while a
+// low-confidence request waits for a lobby manager
+export interface VoiceTicketDraft {
+  title: string;
+  description: string;
+  department: Department;
+  priority: TicketPriority;
+  estimated_completion: number;
+  room_number: string | null;
+  // In the staff language
+  request_text: string;
+  // Defaults to voice for drafts stored before the text channel existed
+  channel?: SessionChannel;
+  guest_language?: string;
+  // The guest's own words, when they spoke another language
+  original_text?: string | null;
+}
+
+// Create the ticket for a voice request and notify staff
+export const createVoiceTicket = async (draft: VoiceTicketDraft, createdBy: string, voiceSessionId: string) => {
+  const text = PIIVault.protect({
+    title: draft.title,
+    description: draft.description,
+    guest_notes: `${draft.channel === SessionChannel.text ? 'Chat' : 'Voice'} request: ${draft.request_text}`,
+    original_text: draft.original_text || null,
+    translated_text: draft.original_text ? draft.request_text : null
+  });
+
+  const ticket = await prisma.ticket.create({
+    data: {
+      ...text.data,
+      department: draft.department,
+      priority: draft.priority,
+      estimated_time: draft.estimated_completion,
+      room_number: draft.room_number,
+      guest_language: draft.guest_language,
+      created_by: createdBy,
+      voice_session_id: voiceSessionId,
+      status_history: {
+        create: { to_status: TicketStatus.pending, changed_by: createdBy }
+      }
+    },
+    include: {
+      creator: {
+        select: {
+          id: true,
+          first_name: true,
+          last_name: true,
+          role: true
+        }
+      }
+    }
+  });
+  await PIIVault.save('ticket', ticket.id, text);
+
+  return ticket;
+};
+
+// Attach short-lived download URLs for a session's stored audio
+export const withAudioDownloadUrls = <T extends { audio_file_url: string | null; response_audio_url: string | null }>(
+  session: T
+) => ({
+  ...session,
+  audio_download_url: session.audio_file_url ? createSignedUrl(session.audio_file_url) : null,
+  response_audio_download_url: session.response_audio_url ? createSignedUrl(session.response_audio_url) : null
+});
+
+// Load a session the guest is answering a clarifying question for
+const loadOpenSession = async (sessionId: string, user: User): Promise<VoiceSession> => {
+  const session = await prisma.voiceSession.findUnique({ where: { id: sessionId } });
+
+  if (!session) {
+    throw new NotFoundError('Voice session not found');
+  }
+  if (session.user_id !== user.id) {
+    throw new AuthorizationError('Access denied');
+  }
+  if (session.status !== VoiceSessionStatus.awaiting_clarification) {
+    throw new ConflictError('Voice session is not awaiting clarification');
+  }
+  if (Date.now() - session.updated_at.getTime() > CLARIFICATION_TIMEOUT_MS) {
+    throw new ConflictError('Voice session has expired, please make a new request');
+  }
+
+  return session;
+};
+
+// A session's conversation with the guest's own words; stored copies have PII masked
+const loadHistory = async (session: VoiceSession | null): Promise<ConversationTurn[]> => {
+  if (!session) return [];
+
+  const revealed = await PIIVault.reveal('voice_session', session.id);
+  return parseConversationHistory(revealed?.fields.conversation_history ?? session.conversation_history);
+};
+
+const preferredLanguage = (user: User): string =>
+  (user.preferences as unknown as UserPreferences | null)?.language || 'en';
+
+const channelOf = (input: VoicePipelineInput): SessionChannel =>
+  input.text !== undefined ? SessionChannel.text : SessionChannel.voice;
+
+// Typed messages are used as they are; recordings are validated, normalized and transcribed
+const readGuestMessage = async (input: VoicePipelineInput): Promise<TranscriptionResult> => {
+  if (input.transcription) return input.transcription;
+
+  if (input.text !== undefined) {
+    return { text: input.text.trim(), language: input.language, provider: 'text' };
+  }
+
+  if (!input.audio) {
+    throw new UnprocessableEntityError('Either audio or a text message is required');
+  }
+  const normalized = await normalizeForTranscription(input.audio, inspectAudio(input.audio, input.format));
+  return getTranscriptionProvider().transcribe(normalized.audio, {
+    format: normalized.format,
+    language: input.language
+  });
+};
+
+// Keep the original recording alongside the session; typed messages have none
+const storeRecording = async (input: VoicePipelineInput, sessionId: string, turn: number) => {
+  if (!input.audio || !input.format) return undefined;
+
+  const audioKey = `voice/input/${sessionId}-${turn}.${input.format}`;
+  await getStorageBackend().put(audioKey, input.audio, contentTypeForKey(audioKey));
+  return audioKey;
+};
+
+// What the pipeline had recorded before an AI failure
+interface PipelineProgress {
+  existingSession?: VoiceSession | null;
+  voiceSession?: VoiceSession;
+  transcript?: string;
+  language?: string;
+  audioKey?: string;
+}
+
+const DEGRADED_RESPONSE = 'I am sorry, I am having trouble processing requests right now. ' +
+  'Your message has been saved and a member of our team will follow up shortly.';
+
+export class VoicePipeline {
+  // Transcribe and classify a guest's recording, or take a typed chat message,
+  // then route it by intent: ask a clarifying question, answer an inquiry, record
+  // a compliment, or open a ticket for service requests and complaints (unless
+  // the request repeats one already open for the room). Voice
+  // requests get a spoken response, chat messages a text one. If the AI provider
+  // is down, the request is still saved for staff to follow up.
+  // Model and TTS usage is metered against the session and the guest's hotel.
+  // Once the hotel is over its monthly budget only transcription and speech still
+  // use paid providers: requests are classified and written up by the keyword
+  // rules, left untranslated, not checked for duplicates, and questions go to the
+  // front desk as tickets instead of being answered by the model.
+  static async process(input: VoicePipelineInput) {
+    const progress: PipelineProgress = {};
+    const usage = new UsageMeter(input.usage);
+
+    try {
+      return await usage.run(async () => {
+        try {
+          return await VoicePipeline.run(input, progress);
+        } catch (error) {
+          if (!isAIFailure(error)) {
+            throw error;
+          }
+          return VoicePipeline.recordDegraded(input, progress, error);
+        }
+      });
+    } finally {
+      await UsageService.record(usage.entries, {
+        voiceSessionId: progress.voiceSession?.id || progress.existingSession?.id,
+        hotelId: input.user.hotel_id
+      });
+    }
+  }
+
+  private static async run(input: VoicePipelineInput, progress: PipelineProgress) {
+    const startedAt = input.startedAt || Date.now();
+    const { user } = input;
+    const channel = channelOf(input);
+
+    const existingSession = input.sessionId ? await loadOpenSession(input.sessionId, user) : null;
+    progress.existingSession = existingSession;
+
+    const overBudget = await UsageService.isOverBudget(user.hotel_id);
+    const translator = overBudget ? new LocalTranslationProvider() : getTranslationProvider();
+
+    // Prompt versions are chosen once per session so A/B splits compare whole conversations
+    const prompts = existingSession
+      ? await PromptRegistry.restore(existingSession.prompt_versions, user.hotel_id)
+      : await PromptRegistry.select(user.hotel_id);
+
+    // Speech-to-text, unless the guest typed
+    const transcription = await readGuestMessage(input);
+    const transcript = transcription.text;
+
+    if (!transcript) {
+      throw new UnprocessableEntityError(channel === SessionChannel.text ? 'Message is empty' : 'No speech detected in audio');
+    }
+    progress.transcript = transcript;
+
+    // Guests are answered in their own language; staff and the models work in
+    // the staff language
+    const language = transcription.language || existingSession?.language
+      || await detectLanguage(transcript, preferredLanguage(user), translator);
+    const foreignLanguage = !isSameLanguage(language, voiceConfig.staffLanguage);
+    const staffTranscript = await translateText(transcript, language, voiceConfig.staffLanguage, translator);
+    progress.language = language;
+
+    // Emergencies skip the model and are escalated straight away; otherwise
+    // intent classification happens once, on the opening utterance
+    const emergency = detectEmergency(staffTranscript) || detectEmergency(transcript);
+    let classification: IntentClassification;
+    if (emergency) {
+      classification = emergencyClassification(emergency);
+    } else if (existingSession) {
+      classification = existingSession.intent_classification as unknown as IntentClassification;
+    } else if (overBudget) {
+      // Rules-based classifications also keep dialog evaluation and ticket
+      // generation off the model
+      classification = RuleBasedClassifier.classify(staffTranscript, 'monthly usage budget exceeded');
+    } else {
+      classification = await IntentClassifier.classify(staffTranscript, prompts.INTENT_CLASSIFIER.content);
+    }
+    const { confidence } = classification;
+    // A conversation that started under budget finishes on the rules too
+    const routing: IntentClassification = overBudget ? { ...classification, source: 'rules' } : classification;
+
+    const history: ConversationTurn[] = [
+      ...await loadHistory(existingSession),
+      {
+        role: 'guest',
+        content: staffTranscript,
+        timestamp: new Date().toISOString(),
+        ...(foreignLanguage && { guest_text: transcript })
+      }
+    ];
+    const previousState = existingSession?.dialog_state as unknown as DialogState | null;
+
+    // Multi-turn dialog: ask for missing details before creating a ticket
+    const dialog = await ConversationManager.evaluate(
+      history,
+      routing,
+      previousState,
+      prompts.HOSPITALITY_ASSISTANT.content
+    );
+    const requestText = summarizeGuestRequest(history, dialog.state);
+    const ticketLanguage = {
+      channel,
+      guest_language: language,
+      original_text: foreignLanguage
+        ? history.filter(entry => entry.role === 'guest').map(entry => entry.guest_text || entry.content).join('\n')
+        : null
+    };
+
+    // Guests often repeat themselves; a repeat of an open request is linked to its
+    // ticket. Complaints always get a ticket of their own.
+    const roomNumber = input.roomNumber || user.room_number;
+    const opensTicket = dialog.complete && !['inquiry', 'compliment', 'complaint'].includes(classification.intent);
+    const duplicate: DuplicateMatch | null = !emergency && opensTicket && !overBudget
+      ? await DuplicateRequests.findOpenDuplicate(user, requestText, roomNumber)
+      : null;
+
+    let voiceSession = existingSession;
+    if (!voiceSession) {
+      const text = PIIVault.protect({ transcript: staffTranscript });
+      voiceSession = await prisma.voiceSession.create({
+        data: {
+          ...text.data,
+          user_id: user.id,
+          intent_classification: { ...classification },
+          confidence_score: confidence,
+          language,
+          channel,
+          status: VoiceSessionStatus.awaiting_clarification,
+          prompt_versions: recordPromptVersions(prompts)
+        }
+      });
+      await PIIVault.save('voice_session', voiceSession.id, text);
+    }
+
+    const turn = history.filter(entry => entry.role === 'guest').length;
+
+    const audioKey = await storeRecording(input, voiceSession.id, turn);
+    history[history.length - 1].audio_key = audioKey;
+    progress.voiceSession = voiceSession;
+    progress.audioKey = audioKey;
+
+    let ticket = null;
+    let reviewDraft: VoiceTicketDraft | null = null;
+    let outcome: VoiceRequestOutcome | null = null;
+    let knowledgeSources: { id: string; title: string; score: number }[] = [];
+    let responseText: string;
+    let voiceContext: VoiceContext;
+
+    if (emergency) {
+      ticket = await createVoiceTicket({
+        ...emergencyTicketFields(emergency, requestText, roomNumber),
+        room_number: roomNumber,
+        request_text: requestText,
+        ...ticketLanguage
+      }, user.id, voiceSession.id);
+      await EmergencyService.raise(ticket, emergency, user.hotel_id);
+
+      responseText = EMERGENCY_RESPONSES[emergency.type];
+      voiceContext = 'EMERGENCY';
+      outcome = VoiceRequestOutcome.ticket_created;
+    } else if (!dialog.complete) {
+      responseText = dialog.question!;
+      voiceContext = 'INFORMATION';
+    } else if (classification.intent === 'inquiry' && !overBudget) {
+      // Questions are answered directly rather than queued for staff
+      const inquiry = await InquiryResponder.answer(history, user.hotel_id, prompts.HOSPITALITY_ASSISTANT.content);
+      responseText = inquiry.answer;
+      knowledgeSources = inquiry.sources.map(({ article, score }) => ({ id: article.id, title: article.title, score }));
+      voiceContext = 'INFORMATION';
+      outcome = VoiceRequestOutcome.answered;
+    } else if (classification.intent === 'compliment') {
+      await VoicePipeline.recordFeedback(user, voiceSession.id, staffTranscript, input.roomNumber);
+      responseText = 'Thank you so much for the kind words. I will make sure the team hears about it.';
+      voiceContext = 'GREETING';
+      outcome = VoiceRequestOutcome.feedback_recorded;
+    } else if (duplicate) {
+      const { title, department, status } = duplicate.ticket;
+      responseText = status === TicketStatus.in_progress
+        ? `I already have your request "${title}" and ${department.replace('_', ' ')} is working on it now.`
+        : `I already have your request "${title}" and it has been passed to ${department.replace('_', ' ')}. ` +
+          'It will be handled shortly.';
+      voiceContext = 'CONFIRMATION';
+      outcome = VoiceRequestOutcome.duplicate_request;
+    } else {
+      // Structured ticket generation
+      const generatedTicket = await TicketGenerator.generate(
+        requestText,
+        routing,
+        prompts.TICKET_GENERATOR.content
+      );
+      const draft: VoiceTicketDraft = {
+        title: generatedTicket.title,
+        description: generatedTicket.description,
+        department: generatedTicket.department,
+        priority: classification.intent === 'complaint'
+          ? atLeastPriority(generatedTicket.priority, TicketPriority.high)
+          : generatedTicket.priority,
+        estimated_completion: generatedTicket.estimated_completion,
+        room_number: roomNumber,
+        request_text: requestText,
+        ...ticketLanguage
+      };
+
+      voiceContext = 'CONFIRMATION';
+
+      if (confidence < voiceConfig.reviewConfidenceThreshold) {
+        // Not sure enough to route on our own; a lobby manager confirms first
+        reviewDraft = draft;
+        responseText = 'Thank you. A member of our team will review your request and confirm it shortly.';
+      } else {
+        responseText = `Thank you. Your request "${draft.title}" has been sent to ` +
+          `${draft.department.replace('_', ' ')} and should be handled within about ` +
+          `${draft.estimated_completion} minutes.`;
+        outcome = VoiceRequestOutcome.ticket_created;
+        ticket = await createVoiceTicket(draft, user.id, voiceSession.id);
+      }
+    }
+
+    const spokenText = await translateText(responseText, RESPONSE_LANGUAGE, language, translator);
+    const speech = channel === SessionChannel.voice
+      ? await VoicePipeline.speak(user, voiceSession.id, turn, spokenText, voiceContext)
+      : null;
+
+    history.push({
+      role: 'assistant',
+      content: responseText,
+      timestamp: new Date().toISOString(),
+      audio_key: speech?.storageKey,
+      ...(spokenText !== responseText && { guest_text: spokenText })
+    });
+
+    // Record the turn, and the ticket reference once the request is complete.
+    // PII is masked in the stored text and kept encrypted.
+    const text = PIIVault.protect({
+      transcript: requestText,
+      response_text: spokenText,
+      conversation_history: history as unknown as object[],
+      review_data: reviewDraft ? { ...reviewDraft } : undefined
+    });
+    const updatedSession: VoiceSession = await prisma.voiceSession.update({
+      where: { id: voiceSession.id },
+      data: {
+        ...text.data,
+        intent_classification: { ...classification },
+        confidence_score: confidence,
+        audio_file_url: audioKey || null,
+        response_audio_url: speech?.storageKey || null,
+        status: !dialog.complete
+          ? VoiceSessionStatus.awaiting_clarification
+          : reviewDraft ? VoiceSessionStatus.pending_review : VoiceSessionStatus.completed,
+        outcome,
+        dialog_state: { ...dialog.state },
+        processing_time: (existingSession?.processing_time || 0) + (Date.now() - startedAt),
+        ...(ticket && {
+          tickets: {
+            connect: { id: ticket.id }
+          }
+        }),
+        ...(duplicate && {
+          duplicate_of: {
+            connect: { id: duplicate.ticket.id }
+          }
+        })
+      }
+    });
+    await PIIVault.save('voice_session', voiceSession.id, text);
+
+    // Send WebSocket notification
+    const wsService = getWebSocketService();
+    if (wsService && ticket) {
+      wsService.broadcastToHotelStaff(user.hotel_id, ['housekeeping'], {
+        type: WebSocketMessageType.VOICE_RESPONSE,
+        payload: {
+          voiceSession: updatedSession,
+          ticket,
+          action: 'voice_request_processed'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+    if (wsService && duplicate) {
+      // Staff of the guest's hotel see that the guest asked again
+      wsService.broadcastToHotelStaff(user.hotel_id, ['housekeeping'], {
+        type: WebSocketMessageType.TICKET_UPDATE,
+        payload: {
+          ticket: duplicate.ticket,
+          voiceSession: updatedSession,
+          action: 'duplicate_request'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+    if (wsService && reviewDraft) {
+      // The draft holds the guest's request, so only their hotel's managers get it
+      wsService.broadcastToHotelStaff(user.hotel_id, REVIEWERS, {
+        type: WebSocketMessageType.VOICE_REVIEW,
+        payload: {
+          voiceSession: updatedSession,
+          draft: reviewDraft,
+          action: 'voice_review_requested'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return {
+      voiceSession: updatedSession,
+      ticket,
+      duplicateOf: duplicate?.ticket || null,
+      classification,
+      transcript,
+      translatedTranscript: foreignLanguage ? staffTranscript : null,
+      language,
+      responseText: spokenText,
+      outcome,
+      knowledgeSources,
+      awaitingClarification: !dialog.complete,
+      pendingReview: reviewDraft !== null,
+      emergency: emergency?.type || null,
+      degraded: false,
+      speech
+    };
+  }
+
+  // Save the raw request when the AI provider fails so staff can follow up by hand
+  private static async recordDegraded(input: VoicePipelineInput, progress: PipelineProgress, error: unknown) {
+    const startedAt = input.startedAt || Date.now();
+    const { user } = input;
+    const channel = channelOf(input);
+
+    logger.warn('AI unavailable, recording voice session without processing', {
+      userId: user.id,
+      sessionId: progress.voiceSession?.id || progress.existingSession?.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    const existingSession = progress.existingSession || null;
+    const voiceSession = progress.voiceSession || existingSession || await prisma.voiceSession.create({
+      data: {
+        user_id: user.id,
+        language: progress.language || input.language || preferredLanguage(user),
+        channel,
+        status: VoiceSessionStatus.unprocessed
+      }
+    });
+    progress.voiceSession = voiceSession;
+
+    const history = await loadHistory(existingSession);
+    const turn = history.filter(entry => entry.role === 'guest').length + 1;
+
+    const audioKey = progress.audioKey || await storeRecording(input, voiceSession.id, turn);
+
+    history.push(
+      { role: 'guest', content: progress.transcript || '', timestamp: new Date().toISOString(), audio_key: audioKey }
+    );
+
+    const speech = channel === SessionChannel.voice
+      ? await VoicePipeline.speak(user, voiceSession.id, turn, DEGRADED_RESPONSE, 'INFORMATION')
+      : null;
+
+    history.push({
+      role: 'assistant',
+      content: DEGRADED_RESPONSE,
+      timestamp: new Date().toISOString(),
+      audio_key: speech?.storageKey
+    });
+
+    const text = PIIVault.protect({
+      transcript: progress.transcript || undefined,
+      response_text: DEGRADED_RESPONSE,
+      conversation_history: history as unknown as object[]
+    });
+    const updatedSession: VoiceSession = await prisma.voiceSession.update({
+      where: { id: voiceSession.id },
+      data: {
+        ...text.data,
+        audio_file_url: audioKey || null,
+        response_audio_url: speech?.storageKey || null,
+        status: VoiceSessionStatus.unprocessed,
+        processing_time: (existingSession?.processing_time || 0) + (Date.now() - startedAt)
+      }
+    });
+    await PIIVault.save('voice_session', voiceSession.id, text);
+
+    const wsService = getWebSocketService();
+    if (wsService) {
+      wsService.broadcastToHotelStaff(user.hotel_id, REVIEWERS, {
+        type: WebSocketMessageType.VOICE_REVIEW,
+        payload: {
+          voiceSession: updatedSession,
+          action: 'voice_request_unprocessed'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const classification: IntentClassification = existingSession?.intent_classification
+      ? existingSession.intent_classification as unknown as IntentClassification
+      : { intent: 'unknown', confidence: 0, entities: [], department: '', priority: '' };
+
+    return {
+      voiceSession: updatedSession,
+      ticket: null,
+      duplicateOf: null,
+      classification,
+      transcript: progress.transcript || '',
+      translatedTranscript: null,
+      language: progress.language || input.language || voiceSession.language,
+      responseText: DEGRADED_RESPONSE,
+      outcome: null,
+      knowledgeSources: [],
+      awaitingClarification: false,
+      pendingReview: false,
+      emergency: null,
+      degraded: true,
+      speech
+    };
+  }
+
+  // Spoken response in the guest's chosen voice, or none when they turned voice
+  // responses off; a TTS failure should not fail the request
+  private static async speak(user: User, sessionId: string, turn: number, text: string, context: VoiceContext) {
+    try {
+      const voice = await VoicePreferences.resolve(user);
+      if (!voice) return null;
+
+      return await synthesizeSessionResponse(`${sessionId}-${turn}`, text, context, voice);
+    } catch (error) {
+      logger.warn('Text-to-speech failed for voice session', {
+        sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  // Store a compliment as guest feedback and let managers know
+  private static async recordFeedback(user: User, voiceSessionId: string, message: string, roomNumber?: string) {
+    const feedback = await prisma.guestFeedback.create({
+      data: {
+        user_id: user.id,
+        voice_session_id: voiceSessionId,
+        hotel_id: user.hotel_id,
+        room_number: roomNumber || user.room_number,
+        sentiment: 'positive',
+        message: redactText(message).text
+      }
+    });
+
+    const wsService = getWebSocketService();
+    if (wsService) {
+      wsService.broadcastToHotelStaff(feedback.hotel_id, ['general_manager'], {
+        type: WebSocketMessageType.NOTIFICATION,
+        payload: { feedback, action: 'guest_feedback_received' },
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return feedback;
+  }
+}
+
+export type VoicePipelineResult = Awaited<ReturnType<typeof VoicePipeline.process>>;
@@ -0,0 +1,128 @@
+import { prisma } from '../config/prisma';
+import { ELEVENLABS_CONFIG } from '../config/elevenlabs';
+import logger from '../config/logger';
+import { HotelVoiceSettings, User, UserPreferences } from '../types';
+import { getStorageBackend, contentTypeForKey } from './storage';
+import { getTextToSpeechProvider, VoiceSelection } from './textToSpeech';
+import { recordUsage, UsageMeter, UsageService } from './usage';
+
+export type VoiceKey = keyof typeof ELEVENLABS_CONFIG.VOICES;
+
+export interface AvailableVoice {
+  key: VoiceKey;
+  voice_id: string;
+  name: string;
+  description: string;
+}
+
+const SAMPLE_TEXT = 'Good evening, and welcome. I am here to help with anything you need during your stay.';
+
+export const AVAILABLE_VOICES: AvailableVoice[] = (Object.keys(ELEVENLABS_CONFIG.VOICES) as VoiceKey[]).map(key => ({
+  key,
+  voice_id: ELEVENLABS_CONFIG.VOICES[key],
+  ...ELEVENLABS_CONFIG.VOICE_PROFILES[key]
+}));
+
+// Storage keys of the sample clips synthesized so far, by voice ID
+const sampleKeys = new Map<string, string>();
+
+export const isAvailableVoice = (voiceId: unknown): voiceId is string =>
+  AVAILABLE_VOICES.some(voice => voice.voice_id === voiceId);
+
+const isSpeed = (speed: unknown): speed is number => {
+  const { min, max } = ELEVENLABS_CONFIG.SPEED_RANGE;
+  return typeof speed === 'number' && speed >= min && speed <= max;
+};
+
+// Error message for invalid voice preferences, or null when they are usable
+export const validateVoicePreferences = (preferences: unknown): string | null => {
+  if (preferences === undefined || preferences === null) return null;
+  if (typeof preferences !== 'object') return 'preferences must be an object';
+
+  const { voice_enabled, voice_settings } = preferences as Partial<UserPreferences>;
+  const { min, max } = ELEVENLABS_CONFIG.SPEED_RANGE;
+
+  if (voice_enabled !== undefined && typeof voice_enabled !== 'boolean') {
+    return 'preferences.voice_enabled must be a boolean';
+  }
+  if (voice_settings !== undefined && voice_settings !== null) {
+    if (voice_settings.voice_id !== undefined && !isAvailableVoice(voice_settings.voice_id)) {
+      return `Unknown voice_id. Available voices: ${AVAILABLE_VOICES.map(voice => voice.voice_id).join(', ')}`;
+    }
+    if (voice_settings.speed !== undefined && !isSpeed(voice_settings.speed)) {
+      return `preferences.voice_settings.speed must be between ${min} and ${max}`;
+    }
+  }
+  return null;
+};
+
+export class VoicePreferences {
+  // The voice to answer a guest in, or null when they turned voice responses off.
+  // The guest's own choice wins, then the hotel default, then the context voice.
+  // Pitch is stored with the preferences but no provider supports it yet.
+  static async resolve(user: User): Promise<VoiceSelection | null> {
+    const preferences = user.preferences as unknown as Partial<UserPreferences> | null;
+    if (preferences?.voice_enabled === false) return null;
+
+    const chosen = preferences?.voice_settings;
+    const hotelDefault = await VoicePreferences.getHotelDefault(user.hotel_id);
+
+    const voiceId = isAvailableVoice(chosen?.voice_id) ? chosen!.voice_id : hotelDefault?.voice_id;
+    const speed = isSpeed(chosen?.speed) ? chosen!.speed : hotelDefault?.speed;
+
+    return {
+      ...(voiceId && { voiceId }),
+      ...(speed !== undefined && { speed })
+    };
+  }
+
+  // A missing default is not an error, and neither is failing to load it
+  static async getHotelDefault(hotelId?: string | null): Promise<HotelVoiceSettings | null> {
+    if (!hotelId) return null;
+
+    try {
+      return await prisma.hotelVoiceSettings.findUnique({ where: { hotel_id: hotelId } });
+    } catch (error) {
+      logger.error('Failed to load hotel voice settings', {
+        hotelId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  static async setHotelDefault(hotelId: string, settings: { voice_id: string; speed?: number }, updatedBy: string) {
+    return prisma.hotelVoiceSettings.upsert({
+      where: { hotel_id: hotelId },
+      create: { hotel_id: hotelId, ...settings, updated_by: updatedBy },
+      update: { ...settings, updated_by: updatedBy }
+    });
+  }
+
+  // A short clip of a voice, synthesized once and then served from storage;
+  // the synthesis counts against the requesting user's hotel
+  static async getSample(voiceId: string, hotelId: string | null) {
+    const cachedKey = sampleKeys.get(voiceId);
+    if (cachedKey) {
+      const audio = await getStorageBackend().get(cachedKey);
+      if (audio) return { audio, contentType: contentTypeForKey(cachedKey) };
+    }
+
+    const usage = new UsageMeter();
+    const speech = await usage.run(async () => {
+      const result = await getTextToSpeechProvider().synthesize(SAMPLE_TEXT, { context: 'GREETING', voiceId });
+      recordUsage({ kind: 'tts', provider: result.provider, model: result.model, characters: SAMPLE_TEXT.length });
+      return result;
+    });
+    await UsageService.record(usage.entries, { hotelId });
+
+    const stored = await getStorageBackend().put(
+      `voice/samples/${voiceId}.${speech.format}`,
+      speech.audio,
+      speech.contentType
+    );
+    sampleKeys.set(voiceId, stored.key);
+
+    return { audio: speech.audio, contentType: speech.contentType };
+  }
+}
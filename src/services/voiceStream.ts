@@ -0,0 +1,250 @@
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '../config/prisma';
+import logger from '../config/logger';
+import { audioConfig } from '../config/env';
+import { VoiceResponse, WebSocketMessage, WebSocketMessageType } from '../types';
+import { getTranscriptionProvider, AudioFormat, SUPPORTED_AUDIO_FORMATS } from './transcription';
+import { VoicePipeline } from './voicePipeline';
+import { UsageMeter } from './usage';
+import { detectAudioFormat, inspectAudio } from './audio';
+
+const PARTIAL_INTERVAL_MS = 1500;
+// Each partial re-transcribes the whole recording (compressed audio cannot be
+// decoded from the middle), so past this size partials slow down in proportion
+// to the buffer. That keeps the audio transcribed per second of streaming
+// constant, and the total cost linear in the recording's length.
+const PARTIAL_FULL_RATE_BYTES = 128 * 1024;
+const IDLE_TIMEOUT_MS = 4000; // finalize when the guest stops sending audio
+
+export interface VoiceStreamStartPayload {
+  format?: AudioFormat;
+  language?: string;
+  room_number?: string;
+  // Continue a session awaiting a clarification answer
+  session_id?: string;
+}
+
+interface VoiceStream {
+  id: string;
+  clientId: string;
+  userId: string;
+  format: AudioFormat;
+  language?: string;
+  roomNumber?: string;
+  sessionId?: string;
+  chunks: Buffer[];
+  bytes: number;
+  startedAt: number;
+  lastPartialAt: number;
+  partialInFlight: boolean;
+  // Partial transcripts are billed to the final session
+  usage: UsageMeter;
+  idleTimer?: NodeJS.Timeout;
+}
+
+type SendFn = (clientId: string, message: WebSocketMessage) => void;
+
+const partialIntervalMs = (bytes: number) =>
+  PARTIAL_INTERVAL_MS * Math.max(1, bytes / PARTIAL_FULL_RATE_BYTES);
+
+// Push-to-talk voice sessions over the WebSocket: binary audio chunks in,
+// partial transcripts and a final VOICE_RESPONSE out.
+//
+// Client protocol (after `authenticate` with a JWT `token`):
+//   { type: 'voice_start', payload: { format, language, room_number, session_id } }
+//   <binary frames with audio chunks>
+//   { type: 'voice_stop' }   (or stop sending for IDLE_TIMEOUT_MS)
+//   { type: 'voice_cancel' } to discard the recording
+export class VoiceStreamManager {
+  private streams: Map<string, VoiceStream> = new Map();
+
+  constructor(private send: SendFn) {}
+
+  hasStream(clientId: string): boolean {
+    return this.streams.has(clientId);
+  }
+
+  start(clientId: string, userId: string, payload: VoiceStreamStartPayload = {}) {
+    const format = payload.format || 'webm';
+    if (!SUPPORTED_AUDIO_FORMATS.includes(format)) {
+      this.sendStatus(clientId, null, 'error', {
+        error: `Unsupported audio format. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`
+      });
+      return;
+    }
+
+    // A new start replaces any unfinished stream
+    this.cancel(clientId);
+
+    const stream: VoiceStream = {
+      id: uuidv4(),
+      clientId,
+      userId,
+      format,
+      language: payload.language,
+      roomNumber: payload.room_number,
+      sessionId: payload.session_id,
+      chunks: [],
+      bytes: 0,
+      startedAt: Date.now(),
+      lastPartialAt: Date.now(),
+      partialInFlight: false,
+      usage: new UsageMeter()
+    };
+
+    this.streams.set(clientId, stream);
+    this.resetIdleTimer(stream);
+    this.sendStatus(clientId, stream.id, 'started');
+  }
+
+  appendChunk(clientId: string, chunk: Buffer) {
+    const stream = this.streams.get(clientId);
+    if (!stream) {
+      this.sendStatus(clientId, null, 'error', { error: 'No active voice stream. Send voice_start first.' });
+      return;
+    }
+
+    if (stream.bytes + chunk.length > audioConfig.maxUploadBytes) {
+      this.cancel(clientId);
+      this.sendStatus(clientId, stream.id, 'error', { error: 'Voice stream exceeds maximum size' });
+      return;
+    }
+
+    stream.chunks.push(chunk);
+    stream.bytes += chunk.length;
+    this.resetIdleTimer(stream);
+
+    if (!stream.partialInFlight && Date.now() - stream.lastPartialAt >= partialIntervalMs(stream.bytes)) {
+      this.sendPartialTranscript(stream);
+    }
+  }
+
+  cancel(clientId: string) {
+    const stream = this.streams.get(clientId);
+    if (!stream) return;
+
+    clearTimeout(stream.idleTimer);
+    this.streams.delete(clientId);
+  }
+
+  // Finalize the stream into a VoiceSession and send the VOICE_RESPONSE frame
+  async stop(clientId: string) {
+    const stream = this.streams.get(clientId);
+    if (!stream) return;
+
+    this.cancel(clientId);
+
+    if (stream.bytes === 0) {
+      this.sendStatus(clientId, stream.id, 'error', { error: 'No audio received' });
+      return;
+    }
+
+    const audio = Buffer.concat(stream.chunks);
+    try {
+      inspectAudio(audio, stream.format);
+    } catch (error) {
+      this.sendStatus(clientId, stream.id, 'error', {
+        error: error instanceof Error ? error.message : 'Invalid audio'
+      });
+      return;
+    }
+
+    this.sendStatus(clientId, stream.id, 'processing');
+
+    try {
+      const user = await prisma.user.findUnique({ where: { id: stream.userId } });
+      if (!user || !user.active) {
+        this.sendStatus(clientId, stream.id, 'error', { error: 'User not found or inactive' });
+        return;
+      }
+
+      const result = await VoicePipeline.process({
+        user,
+        audio,
+        format: detectAudioFormat(audio) || stream.format,
+        language: stream.language,
+        roomNumber: stream.roomNumber,
+        sessionId: stream.sessionId,
+        startedAt: stream.startedAt,
+        usage: stream.usage.entries
+      });
+
+      const response: VoiceResponse = {
+        transcript: result.transcript,
+        intent: result.classification.intent,
+        confidence: result.classification.confidence,
+        response_text: result.responseText,
+        response_audio: result.speech ? result.speech.audio.toString('base64') : '',
+        ticket_created: !!result.ticket,
+        ticket_id: result.ticket?.id,
+        duplicate_of_ticket_id: result.duplicateOf?.id,
+        awaiting_clarification: result.awaitingClarification,
+        pending_review: result.pendingReview,
+        emergency: result.emergency,
+        language: result.language,
+        session_id: result.voiceSession.id
+      };
+
+      this.send(clientId, {
+        type: WebSocketMessageType.VOICE_RESPONSE,
+        payload: { stream_id: stream.id, ...response },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error('Voice stream processing failed', {
+        streamId: stream.id,
+        userId: stream.userId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      this.sendStatus(clientId, stream.id, 'error', {
+        error: error instanceof Error ? error.message : 'Voice processing failed'
+      });
+    }
+  }
+
+  private resetIdleTimer(stream: VoiceStream) {
+    clearTimeout(stream.idleTimer);
+    stream.idleTimer = setTimeout(() => {
+      this.stop(stream.clientId);
+    }, IDLE_TIMEOUT_MS);
+  }
+
+  private async sendPartialTranscript(stream: VoiceStream) {
+    stream.partialInFlight = true;
+    stream.lastPartialAt = Date.now();
+
+    try {
+      const transcription = await stream.usage.run(() =>
+        getTranscriptionProvider().transcribe(Buffer.concat(stream.chunks), {
+          format: stream.format,
+          language: stream.language
+        })
+      );
+
+      // Skip if the stream finished or was replaced meanwhile
+      if (this.streams.get(stream.clientId) !== stream) return;
+
+      this.send(stream.clientId, {
+        type: WebSocketMessageType.VOICE_TRANSCRIPT_PARTIAL,
+        payload: { stream_id: stream.id, transcript: transcription.text },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      // Partial audio may not be decodable yet; the final transcript covers it
+      logger.debug('Partial transcription failed', {
+        streamId: stream.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      stream.partialInFlight = false;
+    }
+  }
+
+  private sendStatus(clientId: string, streamId: string | null, status: string, extra: Record<string, unknown> = {}) {
+    this.send(clientId, {
+      type: WebSocketMessageType.VOICE_STREAM_STATUS,
+      payload: { stream_id: streamId, status, ...extra },
+      timestamp: new Date().toISOString()
+    });
+  }
+}
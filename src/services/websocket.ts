@@ -1,6 +1,11 @@
-import { WebSocketServer, WebSocket } from 'ws';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
 import { WebSocketMessage, WebSocketMessageType, UserRole } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import jwt from 'jsonwebtoken';
+import { prisma } from '../config/prisma';
+import logger from '../config/logger';
+import { VoiceStreamManager } from './voiceStream';
+import { ChatService } from './chat';
 
 interface ConnectedClient {
   id: string;
@@ -8,6 +13,9 @@ interface ConnectedClient {
   userId?: string;
   role?: UserRole;
   roomNumber?: string;
+  hotelId?: string | null;
+  // Identity was proven with a JWT and the user loaded from the database
+  verified?: boolean;
   lastPing: number;
 }
 
@@ -16,15 +24,18 @@ class WebSocketService {
   private userConnections: Map<string, string[]> = new Map();
   private roomConnections: Map<string, string[]> = new Map();
   private isInitialized: boolean = false;
+  private voiceStreams = new VoiceStreamManager((clientId, message) => this.sendMessage(clientId, message));
 
   constructor(private wss: WebSocketServer) {
     try {
       this.setupWebSocketServer();
       this.startHeartbeat();
       this.isInitialized = true;
-      console.log('✅ WebSocket service setup completed');
+      logger.info('WebSocket service setup completed');
     } catch (error) {
-      console.error('❌ Failed to setup WebSocket service:', error);
+      logger.error('Failed to setup WebSocket service', {
+        error: error instanceof Error ? error.message : String(error)
+      });
       this.isInitialized = false;
     }
   }
@@ -37,7 +48,7 @@ class WebSocketService {
     this.wss.on('connection', (ws: WebSocket, request) => {
       try {
         const clientId = uuidv4();
-        console.log(`🔗 New WebSocket connection: ${clientId}`);
+        logger.debug('New WebSocket connection', { clientId });
 
         const client: ConnectedClient = {
           id: clientId,
@@ -48,25 +59,30 @@ class WebSocketService {
         this.clients.set(clientId, client);
 
         // Handle incoming messages
-        ws.on('message', (data) => {
+        ws.on('message', (data, isBinary) => {
+          if (isBinary) {
+            this.handleAudioChunk(clientId, data);
+            return;
+          }
+
           try {
             const message = JSON.parse(data.toString());
             this.handleMessage(clientId, message);
           } catch (error) {
-            console.error('Invalid WebSocket message:', error);
+            logger.warn('Invalid WebSocket message', { clientId });
             this.sendError(clientId, 'Invalid message format');
           }
         });
 
         // Handle connection close
         ws.on('close', () => {
-          console.log(`🔌 WebSocket connection closed: ${clientId}`);
+          logger.debug('WebSocket connection closed', { clientId });
           this.removeClient(clientId);
         });
 
         // Handle errors
         ws.on('error', (error) => {
-          console.error(`❌ WebSocket error for ${clientId}:`, error);
+          logger.error('WebSocket error', { clientId, error: error.message });
           this.removeClient(clientId);
         });
 
@@ -88,14 +104,16 @@ class WebSocketService {
           timestamp: new Date().toISOString()
         });
       } catch (error) {
-        console.error('❌ Error handling new WebSocket connection:', error);
+        logger.error('Error handling new WebSocket connection', {
+          error: error instanceof Error ? error.message : String(error)
+        });
         ws.close();
       }
     });
 
     // Handle WebSocket server errors
     this.wss.on('error', (error) => {
-      console.error('❌ WebSocket server error:', error);
+      logger.error('WebSocket server error', { error: error.message });
     });
   }
 
@@ -105,17 +123,57 @@ class WebSocketService {
 
     switch (message.type) {
       case 'authenticate':
-        this.authenticateClient(clientId, message.payload);
+        this.authenticateClient(clientId, message.payload).catch((error) => {
+          logger.error('WebSocket authentication failed', {
+            clientId,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          this.sendError(clientId, 'Authentication failed');
+        });
         break;
       
       case 'join_room':
-        this.joinRoom(clientId, message.payload.room);
+        if (!client.verified) {
+          this.sendError(clientId, 'Joining a room requires authentication with a valid token');
+          break;
+        }
+        this.joinRoom(clientId, message.payload?.room);
         break;
       
       case 'leave_room':
-        this.leaveRoom(clientId, message.payload.room);
+        this.leaveRoom(clientId, message.payload?.room);
         break;
       
+      case 'voice_start':
+        if (!client.verified || !client.userId) {
+          this.sendError(clientId, 'Voice streaming requires authentication with a valid token');
+          break;
+        }
+        this.voiceStreams.start(clientId, client.userId, message.payload);
+        break;
+
+      case 'voice_stop':
+        this.voiceStreams.stop(clientId);
+        break;
+
+      case 'voice_cancel':
+        this.voiceStreams.cancel(clientId);
+        break;
+
+      case 'chat_message':
+        if (!client.verified || !client.userId) {
+          this.sendError(clientId, 'Chat requires authentication with a valid token');
+          break;
+        }
+        ChatService.handleWebSocketMessage((id, reply) => this.sendMessage(id, reply), clientId, client.userId, message.payload)
+          .catch((error) => {
+            logger.error('Chat message handling failed', {
+              clientId,
+              error: error instanceof Error ? error.message : String(error)
+            });
+          });
+        break;
+
       case 'ping':
         this.sendMessage(clientId, {
           type: WebSocketMessageType.SYSTEM_MESSAGE,
@@ -125,36 +183,75 @@ class WebSocketService {
         break;
       
       default:
-        console.log(`📨 Received message from ${clientId}:`, message);
+        logger.debug('Unhandled WebSocket message', { clientId, type: message.type });
     }
   }
 
-  private authenticateClient(clientId: string, payload: { userId: string, role: UserRole, roomNumber?: string }) {
+  private handleAudioChunk(clientId: string, data: RawData) {
+    const chunk = Array.isArray(data)
+      ? Buffer.concat(data)
+      : Buffer.isBuffer(data) ? data : Buffer.from(data);
+    this.voiceStreams.appendChunk(clientId, chunk);
+  }
+
+  // Identity, role and hotel come from the JWT and the database; anything else
+  // in the payload is ignored
+  private async authenticateClient(clientId: string, payload: { token?: string, roomNumber?: string } | null) {
     const client = this.clients.get(clientId);
     if (!client) return;
 
-    client.userId = payload.userId;
-    client.role = payload.role;
-    client.roomNumber = payload.roomNumber;
+    if (client.verified) {
+      this.sendError(clientId, 'Already authenticated');
+      return;
+    }
+    if (typeof payload?.token !== 'string') {
+      this.sendError(clientId, 'Authentication requires a valid token');
+      return;
+    }
+
+    let decoded: { userId: string };
+    try {
+      decoded = jwt.verify(payload.token, process.env.JWT_SECRET!) as { userId: string };
+    } catch (error) {
+      this.sendError(clientId, 'Invalid authentication token');
+      return;
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+    if (!user || !user.active) {
+      this.sendError(clientId, 'User not found or inactive');
+      return;
+    }
+    // The socket may have closed while the user was loading
+    if (!this.clients.has(clientId)) return;
+
+    client.userId = user.id;
+    client.role = user.role;
+    client.hotelId = user.hotel_id;
+    client.verified = true;
+    // Guests are placed in their own room; staff may name the room they cover
+    client.roomNumber = user.role === 'guest'
+      ? user.room_number || undefined
+      : typeof payload.roomNumber === 'string' ? payload.roomNumber : undefined;
 
     // Track user connections
-    const userConnections = this.userConnections.get(payload.userId) || [];
+    const userConnections = this.userConnections.get(user.id) || [];
     userConnections.push(clientId);
-    this.userConnections.set(payload.userId, userConnections);
+    this.userConnections.set(user.id, userConnections);
 
     // Join room if specified
-    if (payload.roomNumber) {
-      this.joinRoom(clientId, payload.roomNumber);
+    if (client.roomNumber) {
+      this.joinRoom(clientId, client.roomNumber);
     }
 
-    console.log(`🔐 Client authenticated: ${clientId} (User: ${payload.userId}, Role: ${payload.role})`);
+    logger.debug('WebSocket client authenticated', { clientId });
 
     this.sendMessage(clientId, {
       type: WebSocketMessageType.SYSTEM_MESSAGE,
       payload: {
         message: 'Authentication successful',
-        userId: payload.userId,
-        role: payload.role
+        userId: user.id,
+        role: user.role
       },
       timestamp: new Date().toISOString()
     });
@@ -162,7 +259,13 @@ class WebSocketService {
 
   private joinRoom(clientId: string, room: string) {
     const client = this.clients.get(clientId);
-    if (!client) return;
+    if (!client || !client.verified || typeof room !== 'string' || !room) return;
+
+    // Guests only hear about their own room
+    if (client.role === 'guest' && room !== client.roomNumber) {
+      this.sendError(clientId, 'Guests can only join their own room');
+      return;
+    }
 
     const roomConnections = this.roomConnections.get(room) || [];
     if (!roomConnections.includes(clientId)) {
@@ -170,7 +273,7 @@ class WebSocketService {
       this.roomConnections.set(room, roomConnections);
     }
 
-    console.log(`🏠 Client ${clientId} joined room: ${room}`);
+    logger.debug('WebSocket client joined room', { clientId, room });
 
     // Notify room members
     this.broadcastToRoom(room, {
@@ -193,7 +296,7 @@ class WebSocketService {
       this.roomConnections.set(room, roomConnections);
     }
 
-    console.log(`🚪 Client ${clientId} left room: ${room}`);
+    logger.debug('WebSocket client left room', { clientId, room });
 
     // Notify room members
     this.broadcastToRoom(room, {
@@ -210,6 +313,8 @@ class WebSocketService {
     const client = this.clients.get(clientId);
     if (!client) return;
 
+    this.voiceStreams.cancel(clientId);
+
     // Remove from user connections
     if (client.userId) {
       const userConnections = this.userConnections.get(client.userId) || [];
@@ -253,7 +358,7 @@ class WebSocketService {
       for (const [clientId, client] of this.clients.entries()) {
         // Check if client is still alive (30 second timeout)
         if (now - client.lastPing > 30000) {
-          console.log(`💀 Client ${clientId} timed out`);
+          logger.debug('WebSocket client timed out', { clientId });
           client.ws.terminate();
           this.removeClient(clientId);
         } else {
@@ -297,9 +402,20 @@ class WebSocketService {
     });
   }
 
+  // Only verified connections receive role broadcasts
   public broadcastToRole(role: UserRole, message: WebSocketMessage) {
     for (const [clientId, client] of this.clients.entries()) {
-      if (client.role === role) {
+      if (client.verified && client.role === role) {
+        this.sendMessage(clientId, message);
+      }
+    }
+  }
+
+  // Verified staff in these roles at one hotel; super admins hear from every hotel
+  public broadcastToHotelStaff(hotelId: string | null | undefined, roles: UserRole[], message: WebSocketMessage) {
+    for (const [clientId, client] of this.clients.entries()) {
+      if (!client.verified || !client.role || !roles.includes(client.role) || client.role === 'guest') continue;
+      if (client.role === 'super_admin' || (hotelId && client.hotelId === hotelId)) {
         this.sendMessage(clientId, message);
       }
     }
@@ -2,7 +2,17 @@
 import type {
   User as PrismaUser,
   Ticket as PrismaTicket,
+  TicketStatusHistory as PrismaTicketStatusHistory,
+  TicketComment as PrismaTicketComment,
   VoiceSession as PrismaVoiceSession,
+  GuestFeedback as PrismaGuestFeedback,
+  KnowledgeArticle as PrismaKnowledgeArticle,
+  EmergencyAlert as PrismaEmergencyAlert,
+  PromptVersion as PrismaPromptVersion,
+  ModelUsage as PrismaModelUsage,
+  UsageBudget as PrismaUsageBudget,
+  HotelVoiceSettings as PrismaHotelVoiceSettings,
+  RedactedContent as PrismaRedactedContent,
   Notification as PrismaNotification,
   AuditLog as PrismaAuditLog,
   Role as PrismaRole,
@@ -15,12 +25,26 @@ export {
   TicketPriority,
   Department,
   NotificationStatus,
+  VoiceSessionStatus,
+  VoiceRequestOutcome,
+  SessionChannel,
+  CommentVisibility,
 } from '@prisma/client';
 
 // Re-export types with proper names
 export type User = PrismaUser;
 export type Ticket = PrismaTicket;
+export type TicketStatusHistory = PrismaTicketStatusHistory;
+export type TicketComment = PrismaTicketComment;
 export type VoiceSession = PrismaVoiceSession;
+export type GuestFeedback = PrismaGuestFeedback;
+export type KnowledgeArticle = PrismaKnowledgeArticle;
+export type EmergencyAlert = PrismaEmergencyAlert;
+export type PromptVersion = PrismaPromptVersion;
+export type ModelUsage = PrismaModelUsage;
+export type UsageBudget = PrismaUsageBudget;
+export type HotelVoiceSettings = PrismaHotelVoiceSettings;
+export type RedactedContent = PrismaRedactedContent;
 export type Notification = PrismaNotification;
 export type AuditLog = PrismaAuditLog;
 export type Role = PrismaRole;
@@ -101,6 +125,11 @@ export enum WebSocketMessageType {
   TICKET_UPDATE = 'ticket_update',
   NOTIFICATION = 'notification',
   VOICE_RESPONSE = 'voice_response',
+  VOICE_STREAM_STATUS = 'voice_stream_status',
+  VOICE_TRANSCRIPT_PARTIAL = 'voice_transcript_partial',
+  VOICE_REVIEW = 'voice_review',
+  CHAT_RESPONSE = 'chat_response',
+  EMERGENCY_ALERT = 'emergency_alert',
   SYSTEM_MESSAGE = 'system_message',
   USER_JOINED = 'user_joined',
   USER_LEFT = 'user_left'
@@ -139,15 +168,63 @@ export interface VoiceResponse {
   response_audio: string; // base64 encoded audio
   ticket_created?: boolean;
   ticket_id?: string;
+  // Open ticket the request repeated; no new ticket was created
+  duplicate_of_ticket_id?: string;
+  // The assistant asked a clarifying question; answer with the same session_id
+  awaiting_clarification?: boolean;
+  // Held for a lobby manager to confirm before a ticket is created
+  pending_review?: boolean;
+  // Emergency type when the request was escalated as an emergency
+  emergency?: string | null;
+  // Language the guest spoke and is answered in
+  language?: string;
+  session_id: string;
+}
+
+// Reply to a message typed in the text chat
+export interface ChatResponse {
+  message: string;
+  intent: string;
+  confidence: number;
+  response_text: string;
+  ticket_created?: boolean;
+  ticket_id?: string;
+  // Open ticket the request repeated; no new ticket was created
+  duplicate_of_ticket_id?: string;
+  // The assistant asked a clarifying question; answer with the same session_id
+  awaiting_clarification?: boolean;
+  pending_review?: boolean;
+  emergency?: string | null;
+  language?: string;
   session_id: string;
 }
 
+export interface ConversationTurn {
+  role: 'guest' | 'assistant';
+  content: string;
+  timestamp: string;
+  audio_key?: string;
+  // The turn as the guest said or heard it, when not in the staff language
+  guest_text?: string;
+}
+
+export interface DialogState {
+  intent: string;
+  collected_slots: Record<string, string>;
+  pending_slots: string[];
+  turns: number;
+}
+
 export interface IntentClassification {
   intent: string;
   confidence: number;
   entities: string[];
   department: string;
   priority: string;
+  // 'rules' when the keyword classifier decided instead of the model
+  source?: 'model' | 'rules';
+  fallback_reason?: string;
+  matched_keywords?: string[];
 }
 
 export interface TicketGeneration {